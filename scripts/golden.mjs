@@ -0,0 +1,131 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+import puppeteer from 'puppeteer';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+
+// ─── Golden-image harness ─────────────────────────────────────────────────────
+// Renders every fixture in tests/golden/fixtures.ts through renderIconToCanvas
+// in headless Chrome, once on the WebGL2 path ('auto') and once forced to
+// Canvas 2D, and compares each frame with
+// tests/golden/expected/<fixture>.<backend>.png.
+//
+//   npm run test:golden                       compare everything
+//   npm run test:golden -- groups             only the named fixtures
+//   npm run test:golden -- --update [names]   record new goldens
+//
+// A frame fails when too many pixels differ beyond a perceptual colour
+// tolerance; its render and a diff image (changed pixels in red) are written
+// to tests/golden/__diff__/. WebGL runs on SwiftShader, Chrome's software GPU,
+// so the goldens do not depend on the machine's graphics driver.
+// Set PUPPETEER_EXECUTABLE_PATH to use another Chrome build.
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+const GOLDEN_DIR = path.join(ROOT, 'tests/golden');
+const EXPECTED_DIR = path.join(GOLDEN_DIR, 'expected');
+const DIFF_DIR = path.join(GOLDEN_DIR, '__diff__');
+const BACKENDS = ['auto', 'canvas2d'];
+
+// pixelmatch's YIQ colour distance (0–1) under which two pixels look the same
+const PIXEL_THRESHOLD = 0.1;
+// Share of pixels allowed past that — edge antialiasing shifts a little
+// between Chrome versions
+const MAX_DIFF_RATIO = 0.002;
+
+const args = process.argv.slice(2);
+const update = args.includes('--update');
+const only = args.filter((a) => !a.startsWith('--'));
+
+const server = await createServer({ root: ROOT, logLevel: 'error', server: { strictPort: false } });
+let browser;
+let failures = 0;
+
+try {
+  await server.listen();
+  browser = await puppeteer.launch({
+    headless: 'shell',
+    args: [
+      '--use-angle=swiftshader',
+      '--enable-unsafe-swiftshader',
+      // Chrome refuses to sandbox itself as root (CI containers)
+      ...(process.getuid?.() === 0 ? ['--no-sandbox'] : []),
+    ],
+  });
+  const page = await browser.newPage();
+  page.on('pageerror', (err) => console.error('Page error:', err.message));
+  await page.goto(new URL('tests/golden/index.html', server.resolvedUrls.local[0]).href);
+  await page.waitForFunction(() => window.golden !== undefined);
+
+  const fixtures = await page.evaluate(() => window.golden.fixtures);
+  const unknown = only.filter((name) => !fixtures.includes(name));
+  if (unknown.length > 0) throw new Error(`Unknown fixture(s): ${unknown.join(', ')}`);
+
+  await fs.rm(DIFF_DIR, { recursive: true, force: true });
+  await fs.mkdir(EXPECTED_DIR, { recursive: true });
+
+  for (const name of only.length > 0 ? only : fixtures) {
+    for (const backend of BACKENDS) {
+      const label = `${name} (${backend})`;
+      const frame = await page.evaluate((n, b) => window.golden.render(n, b), name, backend);
+      // Without this the WebGL golden would silently record the fallback
+      if (backend === 'auto' && frame.webgl2 !== 'active') {
+        console.error(`✗ ${label}: WebGL2 did not render (status: ${frame.webgl2})`);
+        failures++;
+        continue;
+      }
+
+      const file = `${name}.${backend}.png`;
+      const png = Buffer.from(frame.png.slice(frame.png.indexOf(',') + 1), 'base64');
+      if (update) {
+        await fs.writeFile(path.join(EXPECTED_DIR, file), png);
+        console.log(`✎ ${label}: recorded`);
+        continue;
+      }
+
+      const result = await compare(png, path.join(EXPECTED_DIR, file));
+      if (result.ok) {
+        console.log(`✓ ${label}`);
+        continue;
+      }
+      failures++;
+      await fs.mkdir(DIFF_DIR, { recursive: true });
+      await fs.writeFile(path.join(DIFF_DIR, `${name}.${backend}.actual.png`), png);
+      if (result.diff) await fs.writeFile(path.join(DIFF_DIR, `${name}.${backend}.diff.png`), PNG.sync.write(result.diff));
+      console.error(`✗ ${label}: ${result.reason}`);
+    }
+  }
+} finally {
+  await browser?.close();
+  await server.close();
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} frame(s) failed. Renders and diffs are in ${path.relative(ROOT, DIFF_DIR)}/;`
+    + ' if the change is intended, run `npm run test:golden -- --update`.');
+  process.exit(1);
+}
+
+/**
+ * Compares a rendered PNG with its golden. `diff` marks the differing pixels
+ * when the two could be compared at all.
+ */
+async function compare(png, goldenPath) {
+  let golden;
+  try {
+    golden = PNG.sync.read(await fs.readFile(goldenPath));
+  } catch {
+    return { ok: false, reason: `no golden at ${path.relative(ROOT, goldenPath)}` };
+  }
+  const actual = PNG.sync.read(png);
+  const { width, height } = golden;
+  if (actual.width !== width || actual.height !== height) {
+    return { ok: false, reason: `size ${actual.width}×${actual.height}, golden is ${width}×${height}` };
+  }
+  const diff = new PNG({ width, height });
+  const changed = pixelmatch(golden.data, actual.data, diff.data, width, height, { threshold: PIXEL_THRESHOLD });
+  const ratio = changed / (width * height);
+  if (ratio <= MAX_DIFF_RATIO) return { ok: true };
+  return { ok: false, reason: `${(ratio * 100).toFixed(2)}% of pixels differ`, diff };
+}
@@ -0,0 +1,51 @@
+import React from 'react';
+import { useStore } from '@nanostores/react';
+import { $bundleReport } from '../../store/uiStore';
+
+/**
+ * Lists the properties an `.icon` import or export could not map. Stays in the
+ * corner of the canvas view until dismissed, so editing can go on meanwhile.
+ */
+export function BundleReportOverlay() {
+  const report = useStore($bundleReport);
+  if (!report) return null;
+
+  return (
+    <div
+      className="absolute top-3 right-3 z-30 w-[260px] max-h-[calc(100%-24px)] overflow-y-auto"
+      style={{
+        background: 'rgba(30,30,32,0.95)',
+        border: '0.5px solid rgba(255,255,255,0.10)',
+        boxShadow: '0 8px 24px rgba(0,0,0,0.45), inset 0 0.5px 0 rgba(255,255,255,0.08)',
+        backdropFilter: 'blur(24px) saturate(180%)',
+        WebkitBackdropFilter: 'blur(24px) saturate(180%)',
+        color: 'rgba(255,255,255,0.85)',
+        fontSize: '10px',
+        lineHeight: '14px',
+        padding: '8px 10px',
+        borderRadius: '10px',
+      }}
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[11px] font-semibold truncate">{report.title}</span>
+        <button
+          onClick={() => $bundleReport.set(null)}
+          className="px-1 text-[12px] leading-none"
+          style={{ color: 'rgba(255,255,255,0.45)' }}
+          title="Dismiss"
+        >
+          ×
+        </button>
+      </div>
+      <div className="mt-1 mb-1" style={{ color: 'rgba(255,255,255,0.55)' }}>
+        {report.unmapped.length === 1 ? 'One property' : `${report.unmapped.length} properties`} could not be mapped:
+      </div>
+      <ul className="space-y-0.5">
+        {report.unmapped.map((item, i) => (
+          <li key={i} className="break-words">• {item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import React from 'react';
+import { useStore } from '@nanostores/react';
+import { $frameReport, $showDiagnostics } from '../../store/uiStore';
+import { $iconName } from '../../store/iconStore';
+import { RENDER_STAGES, CACHE_NAMES, hitRate } from '../../engine/diagnostics';
+import type { FrameReport } from '../../engine/diagnostics';
+import { downloadBlob, sanitizeFileName } from '../../io/download';
+
+// Extensions worth calling out — the rest are listed in the exported report
+const KEY_EXTENSIONS = ['EXT_color_buffer_float', 'EXT_float_blend', 'OES_texture_float_linear', 'KHR_parallel_shader_compile'];
+
+const LAYER_PATH_LABELS: Record<FrameReport['layers'][number]['path'], string> = {
+  cache: 'cached',
+  plain: 'plain',
+  webgl: 'WebGL',
+  canvas2d: 'Canvas 2D',
+};
+
+function ms(value: number | undefined): string {
+  return value === undefined ? '—' : `${value.toFixed(1)} ms`;
+}
+
+function percent(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+function megabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+}
+
+function exportReport(report: FrameReport) {
+  const json = JSON.stringify({ userAgent: navigator.userAgent, ...report }, null, 2);
+  const blob = new Blob([json], { type: 'application/json' });
+  downloadBlob(blob, `${sanitizeFileName($iconName.get()) || 'Icon'}-diagnostics.json`);
+}
+
+function Heading({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="mt-2 mb-0.5 text-[9px] font-semibold uppercase tracking-wide" style={{ color: 'rgba(255,255,255,0.35)' }}>
+      {children}
+    </div>
+  );
+}
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span className="truncate" style={{ color: 'rgba(255,255,255,0.55)' }}>{label}</span>
+      <span className="tabular-nums truncate">{value}</span>
+    </div>
+  );
+}
+
+/**
+ * Timing and cache overlay for the canvas view. Shows the latest frame's
+ * report; canvas renders collect one only while this is open.
+ */
+export function DiagnosticsOverlay() {
+  const report = useStore($frameReport);
+
+  return (
+    <div
+      className="absolute top-3 left-3 z-30 w-[260px] max-h-[calc(100%-24px)] overflow-y-auto"
+      style={{
+        background: 'rgba(30,30,32,0.95)',
+        border: '0.5px solid rgba(255,255,255,0.10)',
+        boxShadow: '0 8px 24px rgba(0,0,0,0.45), inset 0 0.5px 0 rgba(255,255,255,0.08)',
+        backdropFilter: 'blur(24px) saturate(180%)',
+        WebkitBackdropFilter: 'blur(24px) saturate(180%)',
+        color: 'rgba(255,255,255,0.85)',
+        fontSize: '10px',
+        lineHeight: '14px',
+        padding: '8px 10px',
+        borderRadius: '10px',
+      }}
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[11px] font-semibold">Render diagnostics</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => report && exportReport(report)}
+            disabled={!report}
+            className="px-1.5 py-[1px] rounded-[5px] text-[10px] font-medium"
+            style={{ background: 'rgba(255,255,255,0.08)', color: report ? 'rgba(255,255,255,0.85)' : 'rgba(255,255,255,0.30)' }}
+            title="Download this frame's report as JSON"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={() => $showDiagnostics.set(false)}
+            className="px-1 text-[12px] leading-none"
+            style={{ color: 'rgba(255,255,255,0.45)' }}
+            title="Close diagnostics"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+
+      {!report ? (
+        <div className="mt-2" style={{ color: 'rgba(255,255,255,0.45)' }}>Waiting for the next frame…</div>
+      ) : (
+        <>
+          <Heading>Frame</Heading>
+          <Row label={`${report.size}px · ${report.quality === 'draft' ? 'Draft' : 'Final'}`} value={ms(report.total)} />
+          {RENDER_STAGES.map(({ value, label }) => (
+            <Row key={value} label={label} value={ms(report.stages[value])} />
+          ))}
+
+          <Heading>Layers</Heading>
+          {report.layers.length === 0 && <Row label="No visible layers" value="" />}
+          {report.layers.map((layer) => (
+            <div key={layer.id} className="mb-1">
+              <Row label={`${layer.name} · ${LAYER_PATH_LABELS[layer.path]}`} value={ms(layer.total)} />
+              {RENDER_STAGES.filter(({ value }) => layer.stages[value] !== undefined).map(({ value, label }) => (
+                <div key={value} className="pl-2">
+                  <Row label={label} value={ms(layer.stages[value])} />
+                </div>
+              ))}
+            </div>
+          ))}
+
+          <Heading>Cache hit rate (frame / session)</Heading>
+          {CACHE_NAMES.map(({ value, label }) => (
+            <Row
+              key={value}
+              label={label}
+              value={`${percent(hitRate(report.caches.frame[value]))} / ${percent(hitRate(report.caches.session[value]))}`}
+            />
+          ))}
+          <Row
+            label="Layer cache"
+            value={`${report.layerCache.entries} · ${megabytes(report.layerCache.bytes)} of ${megabytes(report.layerCache.budgetBytes)}`}
+          />
+
+          <Heading>Scratch canvases</Heading>
+          <Row label="This frame" value={String(report.scratchCanvases.frame)} />
+          <Row label="Shared" value={String(report.scratchCanvases.shared)} />
+
+          <Heading>WebGL</Heading>
+          {!report.gpu ? (
+            <Row label="No WebGL2 renderer" value="" />
+          ) : (
+            <>
+              <Row label="Renderer" value={report.gpu.renderer} />
+              <Row label="Max texture" value={`${report.gpu.maxTextureSize}px`} />
+              {KEY_EXTENSIONS.map((ext) => (
+                <Row key={ext} label={ext} value={report.gpu!.extensions.includes(ext) ? 'yes' : 'no'} />
+              ))}
+              <Row label="Extensions" value={String(report.gpu.extensions.length)} />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,27 @@
 import React, { useRef, useEffect, useCallback, useState } from 'react';
 import { useStore } from '@nanostores/react';
 import { $layers, $background, addLayer, updateLayer } from '../../store/iconStore';
-import { $appearanceMode, $lightAngle, $zoom, $selectedLayerId, $hoveredLayerId, selectLayer, stepZoom } from '../../store/uiStore';
-import { renderIconToCanvas, exportIconPNG } from '../../engine/IconRenderer';
+import {
+  $appearanceMode, $lightAngle, $zoom, $selectedLayerId, $hoveredLayerId, $renderQuality, $webgl2Status,
+  $showDiagnostics, $frameReport, selectLayer, stepZoom,
+} from '../../store/uiStore';
+import { beginTransaction, commitTransaction } from '../../store/history';
+import { renderIcon, isAbortError } from '../../engine/renderClient';
 import { drawSquirclePath } from '../../engine/ImageProcessor';
 import { BottomBar } from '../layout/BottomBar';
+import { DiagnosticsOverlay } from './DiagnosticsOverlay';
+import { BundleReportOverlay } from './BundleReportOverlay';
+import { importIconBundleFromDrop, applyIconBundleImport, IconBundleError } from '../../io/iconBundleImport';
+import { isProjectFile, openDroppedProject, ProjectFileError } from '../../io/projectFile';
+import { applyLayoutTransform, layoutCssTransform } from '../../engine/layout';
+import type { RenderQuality, LayerLayout } from '../../types/index';
 
 const ICON_BASE_SIZE = 750; // px at 100% zoom
+// Edits closer together than this count as one interaction (drag, slider scrub):
+// they render as drafts, and the final render follows once input has been
+// quiet this long
+const SETTLE_MS = 180;
+const DRAFT_SCALE = 0.5;
 
 function useDragDrop() {
   const [over, setOver] = useState(false);
@@ -18,10 +33,34 @@ function useDragDrop() {
 
   const handleDragLeave = useCallback(() => setOver(false), []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     setOver(false);
-    const files = Array.from(e.dataTransfer.files).filter(
+    const dropped = Array.from(e.dataTransfer.files);
+    // A project file opens in place of the current document
+    const project = dropped.find(isProjectFile);
+    if (project) {
+      try {
+        await openDroppedProject(project);
+      } catch (err) {
+        window.alert(err instanceof ProjectFileError ? err.message : `Could not open "${project.name}".`);
+        console.error('Project open failed:', err);
+      }
+      return;
+    }
+    // An Icon Composer package (folder or zip) replaces the whole document
+    try {
+      const bundle = await importIconBundleFromDrop(e.dataTransfer);
+      if (bundle) {
+        await applyIconBundleImport(bundle);
+        return;
+      }
+    } catch (err) {
+      window.alert(err instanceof IconBundleError ? err.message : 'Could not import the dropped .icon package.');
+      console.error('Icon import failed:', err);
+      return;
+    }
+    const files = dropped.filter(
       (f) => f.type === 'image/svg+xml' || f.type === 'image/png' || f.type === 'image/jpeg'
     );
     files.forEach((file) => {
@@ -180,6 +219,10 @@ export function IconCanvas() {
   const zoom = useStore($zoom);
   const selectedLayerId = useStore($selectedLayerId);
   const hoveredLayerId = useStore($hoveredLayerId);
+  // Re-render when the GPU context is lost and again once it is back
+  const contextLost = useStore($webgl2Status) === 'lost';
+  // Opening the overlay re-renders once so it has a frame to show
+  const diagnostics = useStore($showDiagnostics);
   const [showSafeArea, setShowSafeArea] = useState(false);
   const [snapGuide, setSnapGuide] = useState<{ x: boolean; y: boolean }>({ x: false, y: false });
   const { over, handleDragOver, handleDragLeave, handleDrop } = useDragDrop();
@@ -194,6 +237,8 @@ export function IconCanvas() {
     rafId: number;
     pendingX: number;
     pendingY: number;
+    /** True once the drag has moved the layer — the whole drag is one undo step */
+    inTransaction: boolean;
   } | null>(null);
 
   const iconSize = Math.round(ICON_BASE_SIZE * (zoom / 100));
@@ -204,36 +249,48 @@ export function IconCanvas() {
   const renderSize = Math.max(1024, Math.min(2048, Math.round(ICON_BASE_SIZE * dpr)));
 
   const outlineImgRef = useRef<HTMLImageElement>(null);
-  const renderingRef  = useRef(false);
-  const pendingRef    = useRef<(() => void) | null>(null);
+  const lastEditRef = useRef(0);
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const params = { layers, background, lightAngle, appearanceMode: mode, size: renderSize };
-
-    const run = () => {
-      renderingRef.current = true;
-      renderIconToCanvas(canvas, params).then(() => {
-        renderingRef.current = false;
-        // If a newer render was queued while we were busy, run it now
-        if (pendingRef.current) {
-          const next = pendingRef.current;
-          pendingRef.current = null;
-          next();
-        }
-      });
+    const now = performance.now();
+    const interacting = now - lastEditRef.current < SETTLE_MS;
+    lastEditRef.current = now;
+
+    // A newer edit cancels this frame — only the latest state is ever finished
+    const controller = new AbortController();
+    const render = (quality: RenderQuality) => {
+      const size = quality === 'draft' ? Math.round(renderSize * DRAFT_SCALE) : renderSize;
+      renderIcon(
+        canvas,
+        { layers, background, lightAngle, appearanceMode: mode, size, quality, diagnostics },
+        controller.signal,
+      )
+        .then((report) => {
+          $renderQuality.set(quality);
+          if (report) $frameReport.set(report);
+        })
+        .catch((err) => {
+          if (!isAbortError(err)) console.error('Render failed:', err);
+        });
     };
 
-    if (renderingRef.current) {
-      // Already rendering — store only the latest request, drop intermediate ones
-      pendingRef.current = run;
+    // A single edit goes straight to full quality; a stream of edits shows
+    // drafts until it pauses
+    let settleTimer = 0;
+    if (interacting) {
+      render('draft');
+      settleTimer = window.setTimeout(() => render('final'), SETTLE_MS);
     } else {
-      pendingRef.current = null;
-      run();
+      render('final');
     }
-  }, [layers, background, lightAngle, mode, renderSize]);
+    return () => {
+      window.clearTimeout(settleTimer);
+      controller.abort();
+    };
+  }, [layers, background, lightAngle, mode, renderSize, contextLost, diagnostics]);
 
   useEffect(() => {
     const handleWheel = (e: WheelEvent) => {
@@ -245,20 +302,8 @@ export function IconCanvas() {
     return () => window.removeEventListener('wheel', handleWheel);
   }, []);
 
-  useEffect(() => {
-    const handler = async () => {
-      const dataUrl = await exportIconPNG(layers, background, lightAngle, mode, 1024);
-      const a = document.createElement('a');
-      a.href = dataUrl;
-      a.download = 'icon-1024.png';
-      a.click();
-    };
-    window.addEventListener('icon-export', handler);
-    return () => window.removeEventListener('icon-export', handler);
-  }, [layers, background, lightAngle, mode]);
-
   // Hit-test a point against a layer's blobUrl by sampling alpha on a tiny offscreen canvas
-  const hitTestLayer = useCallback(async (layer: { blobUrl?: string; layout: { x: number; y: number; scale: number } }, nx: number, ny: number): Promise<boolean> => {
+  const hitTestLayer = useCallback(async (layer: { blobUrl?: string; layout: LayerLayout }, nx: number, ny: number): Promise<boolean> => {
     if (!layer.blobUrl) return false;
     return new Promise((resolve) => {
       const img = new Image();
@@ -268,12 +313,7 @@ export function IconCanvas() {
           const oc = document.createElement('canvas');
           oc.width = oc.height = sz;
           const ox = oc.getContext('2d')!;
-          const scale = layer.layout.scale / 100;
-          const tx = layer.layout.x / 100;
-          const ty = layer.layout.y / 100;
-          ox.translate(sz / 2 + tx * sz, sz / 2 + ty * sz);
-          ox.scale(scale, scale);
-          ox.translate(-sz / 2, -sz / 2);
+          applyLayoutTransform(ox, layer.layout, sz);
           const iw = img.naturalWidth, ih = img.naturalHeight;
           const sc = Math.min(sz / iw, sz / ih);
           ox.drawImage(img, (sz - iw * sc) / 2, (sz - ih * sc) / 2, iw * sc, ih * sc);
@@ -311,6 +351,7 @@ export function IconCanvas() {
         rafId: 0,
         pendingX: alreadySelected.layout.x,
         pendingY: alreadySelected.layout.y,
+        inTransaction: false,
       };
       target.setPointerCapture(e.pointerId);
 
@@ -344,6 +385,7 @@ export function IconCanvas() {
         rafId: 0,
         pendingX: layer.layout.x,
         pendingY: layer.layout.y,
+        inTransaction: false,
       };
       target.setPointerCapture(e.pointerId);
     } else {
@@ -397,13 +439,15 @@ export function IconCanvas() {
     setSnapGuide({ x: snapX, y: snapY });
     ds.pendingX = newX;
     ds.pendingY = newY;
+    if (!ds.inTransaction) {
+      ds.inTransaction = true;
+      beginTransaction();
+    }
 
     // Real-time outline position — direct DOM update, no React reconciliation
     if (outlineImgRef.current) {
       const layer = layers.find(l => l.id === ds.layerId);
-      const scale = layer?.layout.scale ?? 100;
-      outlineImgRef.current.style.transform =
-        `translate(${(newX / 100) * iconSize}px, ${(newY / 100) * iconSize}px) scale(${scale / 100})`;
+      if (layer) outlineImgRef.current.style.transform = layoutCssTransform(layer.layout, iconSize, newX, newY);
     }
 
     if (!ds.rafId) {
@@ -417,8 +461,20 @@ export function IconCanvas() {
     }
   }, [layers, iconSize]);
 
+  // Also handles pointercancel / lostpointercapture — an interrupted drag must
+  // still close its undo step, or history stays stuck inside the transaction
   const handleCanvasPointerUp = useCallback(() => {
+    const ds = dragState.current;
     dragState.current = null;
+    if (ds?.inTransaction) {
+      // Apply the last pending position before closing the undo step
+      if (ds.rafId) {
+        cancelAnimationFrame(ds.rafId);
+        const layer = $layers.get().find((l) => l.id === ds.layerId);
+        if (layer) updateLayer(ds.layerId, { layout: { ...layer.layout, x: ds.pendingX, y: ds.pendingY } });
+      }
+      commitTransaction();
+    }
     setSnapGuide({ x: false, y: false });
   }, []);
 
@@ -502,6 +558,8 @@ export function IconCanvas() {
         onPointerDown={handleCanvasPointerDown}
         onPointerMove={handleCanvasPointerMove}
         onPointerUp={handleCanvasPointerUp}
+        onPointerCancel={handleCanvasPointerUp}
+        onLostPointerCapture={handleCanvasPointerUp}
         onPointerLeave={() => { if (!dragState.current) $hoveredLayerId.set(null); }}
       >
         <IconShadow size={iconSize} mode={mode} />
@@ -564,7 +622,7 @@ export function IconCanvas() {
                   pointerEvents: 'none',
                   zIndex: 2,
                   opacity: outlineLayer.opacity / 100,
-                  transform: `translate(${(outlineLayer.layout.x / 100) * iconSize}px, ${(outlineLayer.layout.y / 100) * iconSize}px) scale(${outlineLayer.layout.scale / 100})`,
+                  transform: layoutCssTransform(outlineLayer.layout, iconSize),
                 }}
               />
             </>
@@ -573,6 +631,8 @@ export function IconCanvas() {
       </div>
 
       <BottomBar />
+      {diagnostics && <DiagnosticsOverlay />}
+      <BundleReportOverlay />
 
       {/* Toolbar strip at bottom */}
       <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-black/30 backdrop-blur-sm rounded-full px-3 py-1">
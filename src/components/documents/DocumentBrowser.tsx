@@ -0,0 +1,149 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useStore } from '@nanostores/react';
+import {
+  $documents,
+  $activeDocumentId,
+  createDocument,
+  duplicateDocument,
+  renameDocument,
+  deleteDocument,
+  switchDocument,
+} from '../../store/persistence';
+import type { DocumentSummary } from '../../store/persistence';
+import { CaretRight, Copy, Plus, Trash, AppWindow } from '@phosphor-icons/react';
+
+function formatUpdatedAt(ts: number): string {
+  const diff = Date.now() - ts;
+  if (diff < 60_000) return 'Just now';
+  if (diff < 3_600_000) return `${Math.floor(diff / 60_000)} min ago`;
+  if (diff < 86_400_000) return `${Math.floor(diff / 3_600_000)} h ago`;
+  return new Date(ts).toLocaleDateString();
+}
+
+// ─── Document row ──────────────────────────────────────────────────────────────
+function DocumentItem({ doc, isActive }: { doc: DocumentSummary; isActive: boolean }) {
+  const [editing, setEditing] = useState(false);
+  const [nameValue, setNameValue] = useState(doc.name);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (editing) {
+      setNameValue(doc.name);
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    }
+  }, [editing]);
+
+  const commitRename = () => {
+    const trimmed = nameValue.trim();
+    if (trimmed && trimmed !== doc.name) renameDocument(doc.id, trimmed);
+    setEditing(false);
+  };
+
+  return (
+    <div
+      onClick={() => !editing && switchDocument(doc.id)}
+      className={`flex items-center gap-2 py-1.5 px-3 cursor-pointer select-none group transition-colors
+        ${isActive ? 'bg-[#0a84ff]/40 text-white' : 'text-[#ebebf5] hover:bg-[#2c2c2e]'}`}
+    >
+      {/* Thumbnail */}
+      <div className="w-9 h-9 rounded-[8px] flex-shrink-0 overflow-hidden flex items-center justify-center bg-[#272727]">
+        {doc.thumbnailUrl ? (
+          <img src={doc.thumbnailUrl} alt="" className="w-full h-full object-contain" />
+        ) : (
+          <AppWindow size={14} weight="bold" className="text-[#636366]" />
+        )}
+      </div>
+
+      {/* Name (editable on double-click) + last edit */}
+      <div className="flex-1 min-w-0 flex flex-col">
+        {editing ? (
+          <input
+            ref={inputRef}
+            type="text"
+            value={nameValue}
+            onChange={(e) => setNameValue(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter')  commitRename();
+              if (e.key === 'Escape') setEditing(false);
+              e.stopPropagation();
+            }}
+            onClick={(e) => e.stopPropagation()}
+            className="text-xs bg-[#111] border border-[#0a84ff] rounded px-1 py-px focus:outline-none text-[#ebebf5]"
+          />
+        ) : (
+          <span
+            className="text-xs truncate"
+            onDoubleClick={(e) => { e.stopPropagation(); setEditing(true); }}
+            title="Double-click to rename"
+          >
+            {doc.name}
+          </span>
+        )}
+        <span className="text-[10px] truncate" style={{ color: 'rgba(255,255,255,0.35)' }}>
+          {formatUpdatedAt(doc.updatedAt)}
+        </span>
+      </div>
+
+      {/* Actions (visible on hover / active) */}
+      <div className={`flex items-center gap-0.5 transition-opacity ${isActive ? 'opacity-80' : 'opacity-0 group-hover:opacity-100'}`}>
+        <button
+          onClick={(e) => { e.stopPropagation(); duplicateDocument(doc.id); }}
+          className="p-1 rounded hover:bg-black/20"
+          title="Duplicate document"
+        >
+          <Copy size={14} weight="bold" />
+        </button>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            if (window.confirm(`Delete "${doc.name}"? This action cannot be undone.`)) deleteDocument(doc.id);
+          }}
+          className="p-1 rounded hover:bg-red-500/20 text-red-400"
+          title="Delete document"
+        >
+          <Trash size={14} weight="bold" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ─── Document Browser ──────────────────────────────────────────────────────────
+export function DocumentBrowser() {
+  const documents = useStore($documents);
+  const activeId = useStore($activeDocumentId);
+  const [collapsed, setCollapsed] = useState(false);
+
+  return (
+    <div className="flex flex-col border-b border-[#2c2c2e] overflow-hidden" style={{ maxHeight: '40%' }}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-[#2c2c2e]">
+        <button
+          onClick={() => setCollapsed((v) => !v)}
+          className="flex items-center gap-1 text-xs font-medium text-[#ebebf5]"
+        >
+          <CaretRight size={10} weight="bold" className={`opacity-60 transition-transform ${collapsed ? '' : 'rotate-90'}`} />
+          Documents
+          <span className="text-[10px] font-normal" style={{ color: 'rgba(255,255,255,0.35)' }}>{documents.length}</span>
+        </button>
+        <button
+          onClick={() => createDocument()}
+          title="New document"
+          className="p-1 rounded hover:bg-[#3a3a3c] text-[#636366] hover:text-[#ebebf5] transition-colors"
+        >
+          <Plus size={14} weight="bold" />
+        </button>
+      </div>
+
+      {!collapsed && (
+        <div className="overflow-y-auto">
+          {documents.map((doc) => (
+            <DocumentItem key={doc.id} doc={doc} isActive={doc.id === activeId} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { $iconName } from '../../store/iconStore';
+import { $showExportDialog, APPEARANCE_MODES, LIGHT_ANGLE_LEVELS, LIGHT_ANGLE_LABELS } from '../../store/uiStore';
+import {
+  $exportSettings, setExportSettings, EXPORT_SIZE_PRESETS, EXPORT_FORMATS, EXPORT_MIN_SIZE, EXPORT_MAX_SIZE,
+} from '../../store/exportStore';
+import { exportImages, exportAllAppearances, formatExportFileName, FORMAT_INFO } from '../../io/imageExport';
+import type { ExportJobOptions } from '../../io/imageExport';
+import { canEncode } from '../../io/rasterize';
+import { Select } from '../ui/Select';
+import { Slider } from '../ui/Slider';
+import type { ExportSettings } from '../../types/index';
+import { X } from '@phosphor-icons/react';
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+/**
+ * Drops formats this browser cannot encode — settings saved in another
+ * browser may ask for them. Falls back to PNG when nothing is left.
+ */
+function withEncodableFormats(settings: ExportSettings): ExportSettings {
+  const formats = settings.formats.filter((f) => canEncode(FORMAT_INFO[f].mime));
+  if (formats.length === settings.formats.length) return settings;
+  return { ...settings, formats: formats.length > 0 ? formats : ['png'] };
+}
+
+// ─── Chip (multi-select toggle) ───────────────────────────────────────────────
+function Chip({ active, disabled, title, onClick, children }: {
+  active: boolean;
+  disabled?: boolean;
+  title?: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+      className={`px-2 py-[3px] text-[11px] font-medium rounded-[6px] transition-colors
+        ${disabled ? 'opacity-30 cursor-not-allowed' : ''}`}
+      style={{
+        background: active ? 'rgba(10,132,255,0.85)' : 'rgba(255,255,255,0.06)',
+        color: active ? '#ffffff' : 'rgba(255,255,255,0.65)',
+      }}
+    >
+      {children}
+    </button>
+  );
+}
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-start gap-3">
+      <span className="text-xs text-[#636366] w-20 shrink-0 pt-[3px]">{label}</span>
+      <div className="flex-1 flex flex-wrap gap-1.5">{children}</div>
+    </div>
+  );
+}
+
+// ─── Export dialog ────────────────────────────────────────────────────────────
+export function ExportDialog() {
+  const open = useStore($showExportDialog);
+  const saved = useStore($exportSettings);
+  const iconName = useStore($iconName);
+  const [settings, setSettings] = useState<ExportSettings>(() => withEncodableFormats(saved));
+  const [customSize, setCustomSize] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  // Controller of the running job — Cancel / Escape / closing abort it
+  const jobRef = useRef<AbortController | null>(null);
+  const exporting = progress !== null;
+
+  // Closing while a job runs cancels it
+  const close = () => {
+    jobRef.current?.abort();
+    $showExportDialog.set(false);
+  };
+
+  // Start from the document's last used settings every time the dialog opens
+  useEffect(() => {
+    if (open) setSettings(withEncodableFormats(saved));
+  }, [open, saved]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') close();
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [open]);
+
+  if (!open) return null;
+
+  const update = (patch: Partial<ExportSettings>) => setSettings((s) => ({ ...s, ...patch }));
+  const sizes = [...new Set([...EXPORT_SIZE_PRESETS, ...settings.sizes])].sort((a, b) => a - b);
+  const perMode = settings.sizes.length * settings.formats.length;
+  const fileCount = perMode * settings.modes.length;
+  const hasLossy = settings.formats.some((f) => FORMAT_INFO[f].lossy);
+  const example = formatExportFileName(settings.fileNameTemplate, {
+    iconName,
+    size: settings.sizes[0] ?? 1024,
+    mode: settings.modes[0] ?? 'default',
+    format: settings.formats[0] ?? 'png',
+  });
+
+  const addCustomSize = () => {
+    const size = Math.round(Number(customSize));
+    if (size >= EXPORT_MIN_SIZE && size <= EXPORT_MAX_SIZE && !settings.sizes.includes(size)) {
+      update({ sizes: [...settings.sizes, size].sort((a, b) => a - b) });
+    }
+    setCustomSize('');
+  };
+
+  const runExport = async (job: (s: ExportSettings, o: ExportJobOptions) => Promise<void>) => {
+    // Remembered with the document, even if the export itself fails
+    setExportSettings(settings);
+    const controller = new AbortController();
+    jobRef.current = controller;
+    setProgress({ done: 0, total: 1 });
+    try {
+      await job(settings, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      $showExportDialog.set(false);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Image export failed:', err);
+        window.alert(`Could not export the icon.\n\n${err instanceof Error ? err.message : String(err)}`);
+      }
+    } finally {
+      jobRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center"
+      style={{ background: 'rgba(0,0,0,0.45)' }}
+      onMouseDown={(e) => e.target === e.currentTarget && !exporting && close()}
+    >
+      <div
+        className="w-[440px] rounded-[14px] flex flex-col"
+        style={{
+          background: 'rgba(30,30,32,0.98)',
+          border: '0.5px solid rgba(255,255,255,0.10)',
+          boxShadow: '0 16px 48px rgba(0,0,0,0.6), inset 0 0.5px 0 rgba(255,255,255,0.07)',
+        }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[#2c2c2e]">
+          <span className="text-xs font-semibold text-[#ebebf5]">Export Images</span>
+          <button
+            onClick={close}
+            className="p-1 rounded hover:bg-[#3a3a3c] text-[#636366] hover:text-[#ebebf5] transition-colors"
+          >
+            <X size={12} weight="bold" />
+          </button>
+        </div>
+
+        <div className="px-4 py-4 space-y-4">
+          <Row label="Sizes">
+            {sizes.map((size) => (
+              <Chip
+                key={size}
+                active={settings.sizes.includes(size)}
+                onClick={() => update({ sizes: toggle(settings.sizes, size).sort((a, b) => a - b) })}
+              >
+                {size}
+              </Chip>
+            ))}
+            <input
+              type="text"
+              inputMode="numeric"
+              value={customSize}
+              placeholder="Custom"
+              onChange={(e) => setCustomSize(e.target.value.replace(/\D/g, ''))}
+              onKeyDown={(e) => e.key === 'Enter' && addCustomSize()}
+              onBlur={addCustomSize}
+              className="w-16 text-[11px] bg-[#2a2a2a] border border-[#3a3a3c] rounded-[6px] px-1.5 py-[2px]
+                text-[#ebebf5] focus:outline-none focus:border-[#0a84ff]"
+            />
+          </Row>
+
+          <Row label="Formats">
+            {EXPORT_FORMATS.map((format) => {
+              const supported = canEncode(FORMAT_INFO[format].mime);
+              const active = settings.formats.includes(format);
+              return (
+                <Chip
+                  key={format}
+                  active={active}
+                  // An active chip stays clickable so it can always be turned off
+                  disabled={!supported && !active}
+                  title={supported ? undefined : 'Not supported by this browser'}
+                  onClick={() => update({ formats: toggle(settings.formats, format) })}
+                >
+                  {FORMAT_INFO[format].label}
+                </Chip>
+              );
+            })}
+          </Row>
+
+          <Row label="Appearance">
+            {APPEARANCE_MODES.map(({ value, label }) => (
+              <Chip
+                key={value}
+                active={settings.modes.includes(value)}
+                onClick={() => update({ modes: toggle(settings.modes, value) })}
+              >
+                {label}
+              </Chip>
+            ))}
+          </Row>
+
+          <Row label="Light">
+            <Select
+              className="flex-1"
+              value={settings.lightAngle === null ? 'document' : String(settings.lightAngle)}
+              onChange={(v) => update({ lightAngle: v === 'document' ? null : Number(v) })}
+              options={[
+                { value: 'document', label: 'Same as document' },
+                ...LIGHT_ANGLE_LEVELS.map((a) => ({ value: String(a), label: LIGHT_ANGLE_LABELS[a] })),
+              ]}
+            />
+          </Row>
+
+          <Row label="Background">
+            <Chip active={settings.background === 'transparent'} onClick={() => update({ background: 'transparent' })}>
+              Transparent
+            </Chip>
+            <Chip active={settings.background === 'filled'} onClick={() => update({ background: 'filled' })}>
+              Filled square
+            </Chip>
+          </Row>
+
+          {hasLossy && (
+            <Slider
+              label="Quality"
+              value={settings.quality}
+              onChange={(v) => update({ quality: v })}
+              min={1}
+              max={100}
+            />
+          )}
+
+          <Row label="File name">
+            <div className="w-full flex flex-col gap-1">
+              <input
+                type="text"
+                value={settings.fileNameTemplate}
+                onChange={(e) => update({ fileNameTemplate: e.target.value })}
+                className="w-full text-xs bg-[#2a2a2a] border border-[#3a3a3c] rounded-md px-2 py-1
+                  text-[#ebebf5] focus:outline-none focus:border-[#0a84ff]"
+              />
+              <span className="text-[10px]" style={{ color: 'rgba(255,255,255,0.35)' }}>
+                $iconName, $size, $mode, $format — e.g. {example}
+              </span>
+            </div>
+          </Row>
+
+          {settings.formats.includes('jpeg') && settings.background === 'transparent' && (
+            <p className="text-[10px]" style={{ color: 'rgba(255,255,255,0.35)' }}>
+              JPEG has no transparency — JPEG files are exported on white.
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between px-4 py-3 border-t border-[#2c2c2e]">
+          {progress ? (
+            <div className="flex-1 mr-3 h-1 rounded-full overflow-hidden" style={{ background: 'rgba(255,255,255,0.08)' }}>
+              <div
+                className="h-full bg-[#0a84ff] transition-[width] duration-150"
+                style={{ width: `${(progress.done / progress.total) * 100}%` }}
+              />
+            </div>
+          ) : (
+            <span className="text-[11px]" style={{ color: 'rgba(255,255,255,0.35)' }}>
+              {fileCount} {fileCount === 1 ? 'file' : 'files'}
+            </span>
+          )}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => (exporting ? jobRef.current?.abort() : close())}
+              className="px-3 py-[5px] text-[11px] font-semibold rounded-[8px]"
+              style={{ background: 'rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.85)' }}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => runExport(exportAllAppearances)}
+              disabled={exporting || perMode === 0 || !settings.fileNameTemplate.trim()}
+              title={`Every appearance at the chosen sizes and formats, one folder per mode (${perMode * APPEARANCE_MODES.length} files)`}
+              className="px-3 py-[5px] text-[11px] font-semibold rounded-[8px] disabled:opacity-40"
+              style={{ background: 'rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.85)' }}
+            >
+              All Appearances
+            </button>
+            <button
+              onClick={() => runExport(exportImages)}
+              disabled={exporting || fileCount === 0 || !settings.fileNameTemplate.trim()}
+              className="px-3.5 py-[5px] text-[11px] font-semibold rounded-[8px] disabled:opacity-40"
+              style={{
+                background: 'linear-gradient(180deg, rgba(10,132,255,1) 0%, rgba(0,102,220,1) 100%)',
+                color: '#ffffff',
+                boxShadow: '0 1px 4px rgba(0,0,0,0.4), inset 0 0.5px 0 rgba(255,255,255,0.25)',
+              }}
+            >
+              {exporting ? 'Exporting…' : 'Export'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -38,7 +38,7 @@ export function CompositionSection() {
           </div>
         )}
 
-        {/* Position and Scale — layers only */}
+        {/* Position, scale, rotation and flips — layers only */}
         {!isGroup && (
           <>
             <div className="flex items-center gap-2">
@@ -59,6 +59,41 @@ export function CompositionSection() {
                 unit="%"
               />
             </div>
+
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-[#636366] w-12 shrink-0">Stretch</span>
+              <div className="flex items-center gap-1.5">
+                <NumberInput value={layout.scaleX ?? 100} onChange={(v) => updateLayer(layer.id, { layout: { ...layout, scaleX: v } })} min={10} max={400} step={1} unit="w" />
+                <NumberInput value={layout.scaleY ?? 100} onChange={(v) => updateLayer(layer.id, { layout: { ...layout, scaleY: v } })} min={10} max={400} step={1} unit="h" />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <span className="text-xs text-[#636366]">Rotation</span>
+              <Slider
+                value={layout.rotation ?? 0}
+                onChange={(v) => updateLayer(layer.id, { layout: { ...layout, rotation: v } })}
+                min={-180}
+                max={180}
+                unit="°"
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-[#636366] w-12 shrink-0">Flip</span>
+              <div className="flex items-center bg-[#2a2a2a] rounded border border-[#3a3a3c] overflow-hidden">
+                {([['flipX', 'Horizontal'], ['flipY', 'Vertical']] as const).map(([key, label]) => (
+                  <button
+                    key={key}
+                    onClick={() => updateLayer(layer.id, { layout: { ...layout, [key]: !layout[key] } })}
+                    className={`px-2.5 py-1 text-xs transition-colors
+                      ${layout[key] ? 'bg-[#0a84ff] text-white' : 'text-[#636366] hover:text-[#ebebf5]'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
           </>
         )}
       </div>
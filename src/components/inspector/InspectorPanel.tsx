@@ -3,7 +3,7 @@ import { useStore } from '@nanostores/react';
 import { $selectedLayerId } from '../../store/uiStore';
 import { $layers, updateLayer } from '../../store/iconStore';
 import { ColorSection } from './ColorSection';
-import { LiquidGlassSection } from './LiquidGlassSection'; // layers only
+import { LiquidGlassSection } from './LiquidGlassSection';
 import { CompositionSection } from './CompositionSection';
 import { Slider } from '../ui/Slider';
 import { Select } from '../ui/Select';
@@ -91,6 +91,7 @@ export function InspectorPanel() {
           {layer.type === 'group' ? (
             <>
               <GroupColorSection />
+              <LiquidGlassSection />
               <CompositionSection />
             </>
           ) : (
@@ -4,6 +4,18 @@ import { $layers, updateLayerLiquidGlass, updateAllLayersLiquidGlass } from '../
 import { $selectedLayerId } from '../../store/uiStore';
 import { Toggle } from '../ui/Toggle';
 import { Slider } from '../ui/Slider';
+import {
+  DEFAULT_REFRACTION, DEFAULT_FRESNEL, DEFAULT_GLARE, DEFAULT_TINT, OPTICS_RANGES,
+} from '../../engine/glassOptics';
+
+function toHex({ r, g, b }: { r: number; g: number; b: number }): string {
+  return `#${[r, g, b].map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function fromHex(hex: string): { r: number; g: number; b: number } {
+  const n = parseInt(hex.slice(1), 16);
+  return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255 };
+}
 
 export function LiquidGlassSection() {
   const selectedId = useStore($selectedLayerId);
@@ -13,8 +25,15 @@ export function LiquidGlassSection() {
   if (!layer) return null;
 
   const lg = layer.liquidGlass;
+  // Layers saved before these were editable render with the defaults
+  const refraction = lg.refraction ?? DEFAULT_REFRACTION;
+  const fresnel = lg.fresnel ?? DEFAULT_FRESNEL;
+  const glare = lg.glare ?? DEFAULT_GLARE;
+  const tint = lg.tint ?? DEFAULT_TINT;
+  // A group's glass covers its merged children and is always set on the group alone
+  const isGroup = layer.type === 'group';
   const update = (partial: Parameters<typeof updateLayerLiquidGlass>[1]) =>
-    lg.mode === 'all'
+    lg.mode === 'all' && !isGroup
       ? updateAllLayersLiquidGlass(partial)
       : updateLayerLiquidGlass(layer.id, partial);
 
@@ -26,27 +45,29 @@ export function LiquidGlassSection() {
           <Toggle checked={lg.enabled} onChange={(v) => update({ enabled: v })} size="sm" />
         </div>
         <span className="text-2xs text-[#636366] bg-[#2a2a2a] px-1.5 py-0.5 rounded">
-          {lg.mode === 'all' ? 'All' : 'Individual'}
+          {isGroup ? 'Group' : lg.mode === 'all' ? 'All' : 'Individual'}
         </span>
       </div>
 
       {lg.enabled && (
         <div className="px-3 space-y-4">
-          <div className="flex items-center gap-2">
-            <span className="text-xs text-[#636366] w-16 shrink-0">Mode</span>
-            <div className="flex items-center bg-[#2a2a2a] rounded border border-[#3a3a3c] overflow-hidden">
-              {(['individual', 'all'] as const).map((m) => (
-                <button
-                  key={m}
-                  onClick={() => update({ mode: m })}
-                  className={`px-2.5 py-1 text-xs capitalize transition-colors
-                    ${lg.mode === m ? 'bg-[#0a84ff] text-white' : 'text-[#636366] hover:text-[#ebebf5]'}`}
-                >
-                  {m}
-                </button>
-              ))}
+          {!isGroup && (
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-[#636366] w-16 shrink-0">Mode</span>
+              <div className="flex items-center bg-[#2a2a2a] rounded border border-[#3a3a3c] overflow-hidden">
+                {(['individual', 'all'] as const).map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => update({ mode: m })}
+                    className={`px-2.5 py-1 text-xs capitalize transition-colors
+                      ${lg.mode === m ? 'bg-[#0a84ff] text-white' : 'text-[#636366] hover:text-[#ebebf5]'}`}
+                  >
+                    {m}
+                  </button>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
 
           <div className="flex items-center justify-between">
             <span className="text-xs text-[#636366]">Specular</span>
@@ -73,6 +94,62 @@ export function LiquidGlassSection() {
             )}
           </div>
 
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-[#636366]">Refraction</span>
+              <Toggle checked={refraction.enabled} onChange={(v) => update({ refraction: { ...refraction, enabled: v } })} />
+            </div>
+            {refraction.enabled && (
+              <>
+                <Slider label="Thickness" unit="" {...OPTICS_RANGES.thickness} value={refraction.thickness} onChange={(v) => update({ refraction: { ...refraction, thickness: v } })} />
+                <Slider label="Factor" unit="" {...OPTICS_RANGES.factor} value={refraction.factor} onChange={(v) => update({ refraction: { ...refraction, factor: v } })} />
+                <Slider label="Dispersion" unit="" {...OPTICS_RANGES.dispersion} value={refraction.dispersion} onChange={(v) => update({ refraction: { ...refraction, dispersion: v } })} />
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-[#636366]">Fresnel</span>
+              <Toggle checked={fresnel.enabled} onChange={(v) => update({ fresnel: { ...fresnel, enabled: v } })} />
+            </div>
+            {fresnel.enabled && (
+              <>
+                <Slider label="Range" unit="" {...OPTICS_RANGES.range} value={fresnel.range} onChange={(v) => update({ fresnel: { ...fresnel, range: v } })} />
+                <Slider label="Factor" unit="" {...OPTICS_RANGES.fresnel} value={fresnel.factor} onChange={(v) => update({ fresnel: { ...fresnel, factor: v } })} />
+                <Slider label="Hardness" unit="" {...OPTICS_RANGES.hardness} value={fresnel.hardness} onChange={(v) => update({ fresnel: { ...fresnel, hardness: v } })} />
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-[#636366]">Glare</span>
+              <Toggle checked={glare.enabled} onChange={(v) => update({ glare: { ...glare, enabled: v } })} />
+            </div>
+            {glare.enabled && (
+              <>
+                <Slider label="Range" unit="" {...OPTICS_RANGES.range} value={glare.range} onChange={(v) => update({ glare: { ...glare, range: v } })} />
+                <Slider label="Focus" unit="" {...OPTICS_RANGES.convergence} value={glare.convergence} onChange={(v) => update({ glare: { ...glare, convergence: v } })} />
+                <Slider label="Factor" unit="" {...OPTICS_RANGES.glare} value={glare.factor} onChange={(v) => update({ glare: { ...glare, factor: v } })} />
+                <Slider label="Angle" unit="°" {...OPTICS_RANGES.angle} value={glare.angle} onChange={(v) => update({ glare: { ...glare, angle: v } })} />
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-[#636366]">Tint</span>
+              <input
+                type="color"
+                value={toHex(tint)}
+                onChange={(e) => update({ tint: { ...tint, ...fromHex(e.target.value) } })}
+                className="w-7 h-6 shrink-0 rounded cursor-pointer bg-transparent border-0"
+              />
+            </div>
+            <Slider label="Amount" value={Math.round(tint.a * 100)} onChange={(v) => update({ tint: { ...tint, a: v / 100 } })} min={0} max={100} />
+          </div>
+
         </div>
       )}
     </div>
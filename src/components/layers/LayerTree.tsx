@@ -7,13 +7,16 @@ import {
   reorderLayer,
   moveLayerToGroup,
   removeLayer,
+  isDescendantOf,
 } from '../../store/iconStore';
 import { $persistenceEnabled, $selectedLayerId, selectLayer } from '../../store/uiStore';
 import { clearPersistence } from '../../store/persistence';
+import { transaction } from '../../store/history';
 import { LayerItem } from './LayerItem';
 import { Toggle } from '../ui/Toggle';
 import type { Layer } from '../../types/index';
-import { Folder, Plus, CloudArrowDown, Trash } from '@phosphor-icons/react';
+import { importIconBundleFromZip, applyIconBundleImport, IconBundleError } from '../../io/iconBundleImport';
+import { Folder, Plus, CloudArrowDown, Trash, FileArrowUp } from '@phosphor-icons/react';
 
 // ─── Flat row model ────────────────────────────────────────────────────────────
 // We flatten the tree into a single ordered array of typed rows.
@@ -33,68 +36,52 @@ type Row = ItemRow | GapRow | EmptyGroupRow;
 
 function buildRows(layers: Layer[]): Row[] {
   const rows: Row[] = [];
-  const roots = layers
-    .filter((l) => l.parentId === null)
-    .sort((a, b) => b.order - a.order);
+  appendLevel(layers, null, 0, rows, new Set());
+  return rows;
+}
 
-  if (roots.length === 0) return rows;
+// Rows for the children of `parentId` (and, recursively, of expanded groups
+// among them): every item is preceded / followed by a drop gap at its depth.
+// `visited` guards against parent cycles in damaged documents.
+function appendLevel(layers: Layer[], parentId: string | null, depth: number, rows: Row[], visited: Set<string>) {
+  const items = layers
+    .filter((l) => l.parentId === parentId)
+    .sort((a, b) => b.order - a.order);
+  if (items.length === 0) return;
+  const prefix = parentId ?? 'root';
 
-  // Gap before the very first root item
+  // Gap before the first item
   rows.push({
     kind: 'gap',
-    key: `root:${roots[0].id}:before`,
-    parentId: null,
-    targetId: roots[0].id,
+    key: `${prefix}:${items[0].id}:before`,
+    parentId,
+    targetId: items[0].id,
     position: 'before',
-    depth: 0,
+    depth,
   });
 
-  for (const root of roots) {
-    rows.push({ kind: 'item', layer: root, depth: 0 });
-
-    if (root.type === 'group' && !root.collapsed) {
-      const children = layers
-        .filter((l) => l.parentId === root.id)
-        .sort((a, b) => b.order - a.order);
+  for (const item of items) {
+    rows.push({ kind: 'item', layer: item, depth });
 
-      if (children.length === 0) {
-        rows.push({ kind: 'empty-group', key: `empty:${root.id}`, groupId: root.id, depth: 1 });
+    if (item.type === 'group' && !item.collapsed && !visited.has(item.id)) {
+      visited.add(item.id);
+      if (layers.some((l) => l.parentId === item.id)) {
+        appendLevel(layers, item.id, depth + 1, rows, visited);
       } else {
-        // Gap before first child
-        rows.push({
-          kind: 'gap',
-          key: `${root.id}:${children[0].id}:before`,
-          parentId: root.id,
-          targetId: children[0].id,
-          position: 'before',
-          depth: 1,
-        });
-        for (const child of children) {
-          rows.push({ kind: 'item', layer: child, depth: 1 });
-          rows.push({
-            kind: 'gap',
-            key: `${root.id}:${child.id}:after`,
-            parentId: root.id,
-            targetId: child.id,
-            position: 'after',
-            depth: 1,
-          });
-        }
+        rows.push({ kind: 'empty-group', key: `empty:${item.id}`, groupId: item.id, depth: depth + 1 });
       }
     }
 
-    // Gap after this root item (also serves as gap between consecutive root items)
+    // Gap after this item (also serves as gap between consecutive items)
     rows.push({
       kind: 'gap',
-      key: `root:${root.id}:after`,
-      parentId: null,
-      targetId: root.id,
+      key: `${prefix}:${item.id}:after`,
+      parentId,
+      targetId: item.id,
       position: 'after',
-      depth: 0,
+      depth,
     });
   }
-
-  return rows;
 }
 
 // ─── Drop Gap ──────────────────────────────────────────────────────────────────
@@ -187,6 +174,19 @@ function SettingsDropdown() {
   const persistenceEnabled = useStore($persistenceEnabled);
   const [open, setOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await applyIconBundleImport(await importIconBundleFromZip(file));
+    } catch (err) {
+      window.alert(err instanceof IconBundleError ? err.message : `Could not import "${file.name}".`);
+      console.error('Icon import failed:', err);
+    }
+  };
 
   useEffect(() => {
     if (!open) return;
@@ -208,6 +208,7 @@ function SettingsDropdown() {
       >
         <CloudArrowDown size={14} weight="bold" />
       </button>
+      <input ref={importInputRef} type="file" accept=".icon,.zip" className="hidden" onChange={handleImport} />
       {open && (
         <div
           className="absolute right-0 top-full mt-2 z-[100] py-1.5 rounded-[12px] shadow-xl w-44"
@@ -226,6 +227,19 @@ function SettingsDropdown() {
             <Toggle checked={persistenceEnabled} onChange={(v) => $persistenceEnabled.set(v)} />
           </div>
           <div className="mx-2 my-1" style={{ height: '0.5px', background: 'rgba(255,255,255,0.08)' }} />
+          <button
+            onClick={() => {
+              setOpen(false);
+              importInputRef.current?.click();
+            }}
+            className="w-full text-left px-3 py-[5px] text-[11px] font-medium transition-colors flex items-center gap-1.5"
+            style={{ color: 'rgba(255,255,255,0.65)' }}
+            onMouseEnter={(e) => ((e.currentTarget as HTMLElement).style.background = 'rgba(255,255,255,0.06)')}
+            onMouseLeave={(e) => ((e.currentTarget as HTMLElement).style.background = 'transparent')}
+          >
+            <FileArrowUp size={13} weight="bold" />
+            Import .icon…
+          </button>
           <button
             onClick={() => {
               if (window.confirm('Reset all saved data? This action cannot be undone.')) {
@@ -301,11 +315,15 @@ export function LayerTree() {
       const allLayers = $layers.get();
       const dragging = allLayers.find((l) => l.id === draggingId);
       if (!dragging || dragging.id === targetId) return;
-      // Reparent if needed, then reorder
-      if (dragging.parentId !== parentId) {
-        moveLayerToGroup(draggingId, parentId);
-      }
-      reorderLayer(draggingId, targetId, position);
+      // A group can't be dropped into its own subtree
+      if (parentId !== null && (parentId === draggingId || isDescendantOf(allLayers, parentId, draggingId))) return;
+      // Reparent if needed, then reorder — one undo step
+      transaction(() => {
+        if (dragging.parentId !== parentId) {
+          moveLayerToGroup(draggingId, parentId);
+        }
+        reorderLayer(draggingId, targetId, position);
+      });
       resetDrag();
     },
     [draggingId, resetDrag],
@@ -315,21 +333,25 @@ export function LayerTree() {
   const handleInsideDrop = useCallback(
     (groupId: string) => {
       if (!draggingId || draggingId === groupId) return;
+      if (isDescendantOf($layers.get(), groupId, draggingId)) return;
       moveLayerToGroup(draggingId, groupId);
       resetDrag();
     },
     [draggingId, resetDrag],
   );
 
-  // ── Eject child to root, positioned just before its parent group ──────────────
+  // ── Eject child one level up, positioned just before its parent group ────────
   const handleEjectAboveGroup = useCallback(
     (groupId: string) => {
       if (!draggingId) return;
       const allLayers = $layers.get();
       const dragging = allLayers.find((l) => l.id === draggingId);
-      if (!dragging || dragging.parentId !== groupId) return;
-      moveLayerToGroup(draggingId, null);
-      reorderLayer(draggingId, groupId, 'before');
+      const group = allLayers.find((l) => l.id === groupId);
+      if (!dragging || !group || dragging.parentId !== groupId) return;
+      transaction(() => {
+        moveLayerToGroup(draggingId, group.parentId);
+        reorderLayer(draggingId, groupId, 'before');
+      });
       resetDrag();
     },
     [draggingId, resetDrag],
@@ -424,8 +446,10 @@ export function LayerTree() {
               const isMyChild = draggingIsChild &&
                 layers.find((l) => l.id === draggingId)?.parentId === layer.id;
               const isEjectTarget = layer.type === 'group' && !layer.collapsed && !!isMyChild;
-              const isInsideTarget =
-                layer.type === 'group' && groupHoverId === layer.id && !isEjectTarget;
+              // A group can't take itself or one of its own descendants
+              const acceptsDrop = layer.type === 'group' && !!draggingId && draggingId !== layer.id
+                && !isDescendantOf(layers, layer.id, draggingId);
+              const isInsideTarget = acceptsDrop && groupHoverId === layer.id && !isEjectTarget;
 
               return (
                 <LayerItem
@@ -441,7 +465,7 @@ export function LayerTree() {
                       // Dragging own child over group header → eject above
                       setGroupHoverId(null);
                       setActiveGapKey(null);
-                    } else if (layer.type === 'group') {
+                    } else if (acceptsDrop) {
                       // Both collapsed and expanded groups accept drops
                       setGroupHoverId(layer.id);
                       setActiveGapKey(null);
@@ -453,7 +477,7 @@ export function LayerTree() {
                   onDrop={
                     isEjectTarget
                       ? () => handleEjectAboveGroup(layer.id)
-                      : layer.type === 'group'
+                      : acceptsDrop
                       ? () => handleInsideDrop(layer.id)
                       : undefined
                   }
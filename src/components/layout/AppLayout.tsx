@@ -1,10 +1,43 @@
-import React from 'react';
-import { TopToolbar } from './TopToolbar';
+import React, { useEffect } from 'react';
+import { TopToolbar, runFileAction } from './TopToolbar';
 import { LeftPanel } from './LeftPanel';
 import { IconCanvas } from '../canvas/IconCanvas';
 import { InspectorPanel } from '../inspector/InspectorPanel';
+import { ExportDialog } from '../export/ExportDialog';
+import { undo, redo } from '../../store/history';
+import { saveProject, saveProjectAs, openProject } from '../../io/projectFile';
 
 export function AppLayout() {
+  // ── Shortcuts: ⌘S / ⇧⌘S / ⌘O, undo / redo (⌘Z / ⇧⌘Z, Ctrl+Z / Ctrl+Y) ────────
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      // Save / open work everywhere — the browser's own dialogs are never wanted
+      if (key === 's') {
+        e.preventDefault();
+        runFileAction(e.shiftKey ? saveProjectAs : saveProject);
+        return;
+      }
+      if (key === 'o') {
+        e.preventDefault();
+        runFileAction(openProject);
+        return;
+      }
+      const tag = (e.target as HTMLElement)?.tagName;
+      if (tag === 'INPUT' || tag === 'TEXTAREA') return; // keep native text undo
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+      } else if (key === 'y' && e.ctrlKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, []);
+
   return (
     <div className="flex flex-col h-screen bg-[#1e1e1e] text-[#ebebf5] font-system overflow-hidden">
       <TopToolbar />
@@ -13,6 +46,7 @@ export function AppLayout() {
         <IconCanvas />
         <InspectorPanel />
       </div>
+      <ExportDialog />
     </div>
   );
 }
@@ -1,13 +1,6 @@
 import React from 'react';
 import { useStore } from '@nanostores/react';
-import { $appearanceMode, setAppearanceMode } from '../../store/uiStore';
-import type { AppearanceMode } from '../../types/index';
-
-const MODES: { value: AppearanceMode; label: string }[] = [
-  { value: 'default', label: 'Default' },
-  { value: 'dark',    label: 'Dark'    },
-  { value: 'clear',   label: 'Clear'   },
-];
+import { $appearanceMode, setAppearanceMode, APPEARANCE_MODES } from '../../store/uiStore';
 
 export function BottomBar() {
   const mode = useStore($appearanceMode);
@@ -23,7 +16,7 @@ export function BottomBar() {
           WebkitBackdropFilter: 'blur(20px) saturate(180%)',
         }}
       >
-        {MODES.map((m) => {
+        {APPEARANCE_MODES.map((m) => {
           const active = mode === m.value;
           return (
             <button
@@ -7,11 +7,25 @@ import {
 } from '../../store/iconStore';
 import {
   $lightAngle, $zoom, setLightAngle, setZoom, ZOOM_LEVELS,
-  LIGHT_ANGLE_LEVELS, LIGHT_ANGLE_LABELS, $webgl2Status, $webgl2Error,
+  LIGHT_ANGLE_LEVELS, LIGHT_ANGLE_LABELS, $webgl2Status, $webgl2Error, $renderQuality, $showExportDialog,
+  $showDiagnostics,
 } from '../../store/uiStore';
+import { beginTransaction, commitTransaction } from '../../store/history';
+import { exportIconBundle } from '../../io/iconBundleExport';
+import { exportAppIconSet } from '../../io/appIconSetExport';
+import { exportAndroidIcon } from '../../io/androidIconExport';
+import { saveProject, saveProjectAs, openProject, ProjectFileError } from '../../io/projectFile';
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
+/** Runs a Save/Open action and reports failures the way the rest of the app does. */
+export function runFileAction(action: () => Promise<void>) {
+  action().catch((err) => {
+    console.error('File action failed:', err);
+    window.alert(err instanceof ProjectFileError ? err.message : `Something went wrong: ${err?.message ?? err}`);
+  });
+}
+
 /** Convert internal angle (0°=right, CCW positive) to display angle (0°=top, CW positive).
  *  e.g. 135 → -45,  45 → +45,  90 → 0,  180 → -90 */
 function toDisplayAngle(a: number): number {
@@ -77,6 +91,8 @@ function GradientSlider({
 
   const handleMouseDown = (e: React.MouseEvent) => {
     e.preventDefault();
+    // The whole scrub (throttled updates + final flush) is a single undo step
+    beginTransaction();
     const rect = trackRef.current!.getBoundingClientRect();
     const thumbX = rect.left + (pct / 100) * rect.width;
     if (Math.abs(e.clientX - thumbX) > 10) {
@@ -93,6 +109,7 @@ function GradientSlider({
       document.removeEventListener('mousemove', onMove);
       document.removeEventListener('mouseup', onUp);
       onRelease?.(lastVal.current); // flush final value immediately
+      commitTransaction();
     };
     document.addEventListener('mousemove', onMove);
     document.addEventListener('mouseup', onUp);
@@ -130,22 +147,33 @@ export function TopToolbar() {
   const bg          = useStore($background);
   const webgl2Status = useStore($webgl2Status);
   const webgl2Error = useStore($webgl2Error);
+  const renderQuality = useStore($renderQuality);
+  const showDiagnostics = useStore($showDiagnostics);
   const webglPopoverText =
-    webgl2Status === 'active'
+    (webgl2Status === 'active'
       ? 'WebGL2 active'
       : webgl2Status === 'error'
         ? `WebGL2 error: ${webgl2Error || 'Unknown error'}`
-        : 'WebGL2 inactive (Canvas 2D)';
+        : webgl2Status === 'lost'
+          ? 'WebGL2 context lost — Canvas 2D until the GPU recovers'
+          : 'WebGL2 inactive (Canvas 2D)')
+    + (renderQuality === 'draft' ? ' · Draft preview' : ' · Final quality')
+    + (showDiagnostics ? ' · Click to hide diagnostics' : ' · Click for diagnostics');
 
   const [showBgPicker,   setShowBgPicker]  = useState(false);
   const [showZoomMenu,   setShowZoomMenu]  = useState(false);
   const [showLightMenu,  setShowLightMenu] = useState(false);
+  const [showFileMenu,   setShowFileMenu]  = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exporting,      setExporting]     = useState(false);
   const [editingName,    setEditingName]   = useState(false);
   const [nameInput,      setNameInput]     = useState(name);
 
   const bgPickerRef   = useRef<HTMLDivElement>(null);
   const zoomMenuRef   = useRef<HTMLDivElement>(null);
   const lightMenuRef  = useRef<HTMLDivElement>(null);
+  const fileMenuRef   = useRef<HTMLDivElement>(null);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
   const colorInputRef = useRef<HTMLInputElement>(null);
 
   const storeBgType     = bg.bgType     ?? 'preset';
@@ -215,7 +243,7 @@ export function TopToolbar() {
 
   // ── Click-outside handler ─────────────────────────────────────────────────
   useEffect(() => {
-    if (!showBgPicker && !showZoomMenu && !showLightMenu) return;
+    if (!showBgPicker && !showZoomMenu && !showLightMenu && !showFileMenu && !showExportMenu) return;
     const handle = (e: MouseEvent) => {
       if (showBgPicker  && bgPickerRef.current  && !bgPickerRef.current.contains(e.target as Node))
         setShowBgPicker(false);
@@ -223,10 +251,26 @@ export function TopToolbar() {
         setShowZoomMenu(false);
       if (showLightMenu && lightMenuRef.current && !lightMenuRef.current.contains(e.target as Node))
         setShowLightMenu(false);
+      if (showFileMenu  && fileMenuRef.current  && !fileMenuRef.current.contains(e.target as Node))
+        setShowFileMenu(false);
+      if (showExportMenu && exportMenuRef.current && !exportMenuRef.current.contains(e.target as Node))
+        setShowExportMenu(false);
     };
     document.addEventListener('mousedown', handle);
     return () => document.removeEventListener('mousedown', handle);
-  }, [showBgPicker, showZoomMenu, showLightMenu]);
+  }, [showBgPicker, showZoomMenu, showLightMenu, showFileMenu, showExportMenu]);
+
+  // ── Package exports (long-running — one at a time) ────────────────────────
+  const runExport = (label: string, action: () => Promise<void>) => {
+    setShowExportMenu(false);
+    setExporting(true);
+    action()
+      .catch((err) => {
+        console.error(`${label} export failed:`, err);
+        window.alert(`Could not export ${label}.`);
+      })
+      .finally(() => setExporting(false));
+  };
 
   // ── Icon name ─────────────────────────────────────────────────────────────
   const commitName = () => { setIconName(nameInput); setEditingName(false); };
@@ -365,8 +409,50 @@ export function TopToolbar() {
         borderBottom: '0.5px solid rgba(255,255,255,0.07)',
       }}
     >
-      {/* Left — icon name */}
+      {/* Left — file menu + icon name */}
       <div className="flex items-center gap-2 min-w-[160px]">
+        <div ref={fileMenuRef} className="relative">
+          <button
+            onClick={() => setShowFileMenu(!showFileMenu)}
+            className="flex items-center gap-1 text-[11px] font-medium"
+            style={{ color: 'rgba(255,255,255,0.55)' }}
+          >
+            File
+            <CaretDown size={8} weight="bold" style={{ color: 'rgba(255,255,255,0.25)' }} />
+          </button>
+
+          {showFileMenu && (
+            <div
+              className="absolute top-full left-0 mt-2 z-50 py-1.5 rounded-[12px] shadow-xl min-w-[150px]"
+              style={{
+                background: 'rgba(30,30,32,0.95)',
+                backdropFilter: 'blur(40px)',
+                WebkitBackdropFilter: 'blur(40px)',
+                border: '0.5px solid rgba(255,255,255,0.10)',
+                boxShadow: '0 8px 32px rgba(0,0,0,0.5), inset 0 0.5px 0 rgba(255,255,255,0.07)',
+              }}
+            >
+              {([
+                ['Open…', '⌘O', openProject],
+                ['Save', '⌘S', saveProject],
+                ['Save As…', '⇧⌘S', saveProjectAs],
+              ] as const).map(([label, shortcut, action]) => (
+                <button
+                  key={label}
+                  onClick={() => { setShowFileMenu(false); runFileAction(action); }}
+                  className="w-full text-left px-3 py-[5px] text-[11px] font-medium transition-colors flex items-center justify-between gap-3"
+                  style={{ color: 'rgba(255,255,255,0.65)' }}
+                  onMouseEnter={(e) => ((e.currentTarget as HTMLElement).style.background = 'rgba(255,255,255,0.06)')}
+                  onMouseLeave={(e) => ((e.currentTarget as HTMLElement).style.background = 'transparent')}
+                >
+                  <span>{label}</span>
+                  <span style={{ color: 'rgba(255,255,255,0.30)' }}>{shortcut}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="w-px h-4" style={{ background: 'rgba(255,255,255,0.08)' }} />
         {editingName ? (
           <input
             autoFocus
@@ -684,7 +770,16 @@ export function TopToolbar() {
 
       {/* Right — Export */}
       <div className="flex items-center gap-2 min-w-[160px] justify-end">
-        <div className="relative group flex items-center">
+        <div
+          className="relative group flex items-center gap-1.5 cursor-pointer"
+          onClick={() => $showDiagnostics.set(!showDiagnostics)}
+        >
+          <span
+            className="text-[9px] font-semibold uppercase tracking-wide tabular-nums"
+            style={{ color: renderQuality === 'draft' ? '#FF9F0A' : 'rgba(255,255,255,0.25)' }}
+          >
+            {renderQuality === 'draft' ? 'Draft' : 'Final'}
+          </span>
           <span
             className="w-2 h-2 rounded-full"
             title={webglPopoverText}
@@ -694,13 +789,17 @@ export function TopToolbar() {
                   ? '#34C759'
                   : webgl2Status === 'error'
                     ? '#FF453A'
-                    : 'rgba(255,255,255,0.20)',
+                    : webgl2Status === 'lost'
+                      ? '#FF9F0A'
+                      : 'rgba(255,255,255,0.20)',
               boxShadow:
                 webgl2Status === 'active'
                   ? '0 0 6px rgba(52,199,89,0.8)'
                   : webgl2Status === 'error'
                     ? '0 0 6px rgba(255,69,58,0.7)'
-                    : 'none',
+                    : webgl2Status === 'lost'
+                      ? '0 0 6px rgba(255,159,10,0.7)'
+                      : 'none',
             }}
           />
           <div
@@ -722,8 +821,55 @@ export function TopToolbar() {
             {webglPopoverText}
           </div>
         </div>
+        <div ref={exportMenuRef} className="relative">
+          <button
+            onClick={() => setShowExportMenu(!showExportMenu)}
+            disabled={exporting}
+            title="Export platform packages"
+            className="flex items-center gap-1 px-2.5 py-[5px] text-[11px] font-semibold rounded-[8px] transition-all duration-150"
+            style={{
+              background: 'rgba(255,255,255,0.08)',
+              color: exporting ? 'rgba(255,255,255,0.40)' : 'rgba(255,255,255,0.85)',
+              boxShadow: 'inset 0 0.5px 0 rgba(255,255,255,0.10)',
+            }}
+          >
+            {exporting ? 'Exporting…' : 'Packages'}
+            <CaretDown size={8} weight="bold" style={{ color: 'rgba(255,255,255,0.25)' }} />
+          </button>
+
+          {showExportMenu && (
+            <div
+              className="absolute top-full right-0 mt-2 z-50 py-1.5 rounded-[12px] shadow-xl min-w-[210px]"
+              style={{
+                background: 'rgba(30,30,32,0.95)',
+                backdropFilter: 'blur(40px)',
+                WebkitBackdropFilter: 'blur(40px)',
+                border: '0.5px solid rgba(255,255,255,0.10)',
+                boxShadow: '0 8px 32px rgba(0,0,0,0.5), inset 0 0.5px 0 rgba(255,255,255,0.07)',
+              }}
+            >
+              {([
+                ['Icon Composer package', '.icon', '.icon package', exportIconBundle],
+                ['Asset catalog icon set', '.appiconset', 'AppIcon.appiconset', exportAppIconSet],
+                ['Android adaptive icon', 'res/', 'Android icon', exportAndroidIcon],
+              ] as const).map(([label, ext, errorLabel, action]) => (
+                <button
+                  key={label}
+                  onClick={() => runExport(errorLabel, action)}
+                  className="w-full text-left px-3 py-[5px] text-[11px] font-medium transition-colors flex items-center justify-between gap-3"
+                  style={{ color: 'rgba(255,255,255,0.65)' }}
+                  onMouseEnter={(e) => ((e.currentTarget as HTMLElement).style.background = 'rgba(255,255,255,0.06)')}
+                  onMouseLeave={(e) => ((e.currentTarget as HTMLElement).style.background = 'transparent')}
+                >
+                  <span>{label}</span>
+                  <span style={{ color: 'rgba(255,255,255,0.30)' }}>{ext}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
         <button
-          onClick={() => window.dispatchEvent(new CustomEvent('icon-export'))}
+          onClick={() => $showExportDialog.set(true)}
           className="px-3.5 py-[5px] text-[11px] font-semibold rounded-[8px] transition-all duration-150"
           style={{
             background: 'linear-gradient(180deg, rgba(10,132,255,1) 0%, rgba(0,102,220,1) 100%)',
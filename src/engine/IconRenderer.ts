@@ -1,9 +1,19 @@
 import type { RenderContext, Layer, BackgroundConfig, AppearanceMode } from '../types/index';
 import type { LiquidGlassConfig } from '../types/index';
 import { drawSquirclePath, createBackgroundCanvas } from './ImageProcessor';
-import { LiquidGlassRenderer } from './LiquidGlass';
-import type { LiquidGlassParams } from './LiquidGlass';
-import { setWebgl2Status, setWebgl2Error } from '../store/uiStore';
+import { LiquidGlassRenderer, WebGLContextLostError } from './LiquidGlass';
+import type { LiquidGlassParams, LayerEffects, BevelMetrics, DropShadowParams, ContextChange } from './LiquidGlass';
+import { $webgl2Status, setWebgl2Status, setWebgl2Error } from '../store/uiStore';
+import { createCanvas, getContext2D, imageSize } from './canvas';
+import type { RenderCanvas, Context2D, RenderImage } from './canvas';
+import { hashString, getCachedLayer, storeLayer, clearLayerCache, layerCacheStats } from './layerCache';
+import {
+  beginFrame, abandonFrame, endFrame, beginLayer, endLayer, setLayerPath, endStage, countCache,
+} from './diagnostics';
+import type { FrameReport } from './diagnostics';
+import { glassOptics } from './glassOptics';
+import { getDistanceField } from './distanceField';
+import { applyLayoutTransform } from './layout';
 
 // [1] INNER SPECULAR DOME — soft light filling the layer interior on the lit side
 const LAYER_DOME_INTENSITY        = 0.50;  // overall strength
@@ -71,41 +81,50 @@ const LAYER_DIR_SHADOW_MAX_LIGHT  = 0.18;  // max darkness in light mode
 const LAYER_DIR_SHADOW_MID_DARK   = 0.78;  // midpoint darkness in dark mode
 const LAYER_DIR_SHADOW_MAX_DARK   = 0.15;  // max darkness in dark mode
 
+// [12] GLASS BEVEL — rounded edge the refraction, rim and specular follow
+// Measured from the silhouette's distance field, so it keeps its width across
+// the whole shape. Scaled by the layer's refraction thickness.
+const LAYER_BEVEL_WIDTH           = 0.008; // bevel width (× size)
+
 // =============================================================================
 
 // ─── Image cache ──────────────────────────────────────────────────────────────
 
-const imageCache = new Map<string, HTMLImageElement>();
+const imageCache = new Map<string, RenderImage>();
 
 // ─── Hi-res image cache ───────────────────────────────────────────────────────
 // SVGs with explicit small intrinsic dims (e.g. 24×24) are rasterized by Chrome
 // at that size and upscaled. Loading the same URL into a new Image with explicit
 // large width/height forces Chrome to rasterize the SVG at that size instead.
 // We preload this once (fire-and-forget) so the render path stays fully synchronous.
-const HI_RES_SIZE = 2048;
-const hiResImgCache = new Map<string, HTMLImageElement>();
+// The render worker cannot decode SVGs: it receives both versions as bitmaps.
+export const HI_RES_SIZE = 2048;
+/** Images at or below this size (either side) get a hi-res version */
+export const HI_RES_THRESHOLD = 512;
+const hiResImgCache = new Map<string, RenderImage>();
 
 function preloadHiRes(url: string): void {
   if (hiResImgCache.has(url)) return;
   const hi = new Image(HI_RES_SIZE, HI_RES_SIZE);
   hi.crossOrigin = 'anonymous';
-  hi.onload = () => hiResImgCache.set(url, hi);
+  // Skipped when the image was released while this one loaded
+  hi.onload = () => imageCache.has(url) && hiResImgCache.set(url, hi);
   hi.src = url;
 }
 
 // ─── Background canvas cache ──────────────────────────────────────────────────
 // Avoids re-creating the background canvas every render when bg config hasn't changed.
 
-const bgCanvasCache = new Map<string, { canvas: HTMLCanvasElement; key: string }>();
+const bgCanvasCache = new Map<string, { canvas: RenderCanvas; key: string }>();
 
 // ─── Drop-shadow canvas cache ─────────────────────────────────────────────────
 // Caches blurred shadow canvases per layer so we don't re-run filter:blur()
 // on every frame when nothing about the shadow has changed.
-const shadowCache = new Map<string, { canvas: HTMLCanvasElement; key: string }>();
+const shadowCache = new Map<string, { canvas: RenderCanvas; key: string }>();
 
 function getCachedShadow(
   layerId: string,
-  contentCanvas: HTMLCanvasElement,
+  contentCanvas: RenderCanvas,
   size: number,
   sv: number,
   fillR: number,
@@ -114,20 +133,20 @@ function getCachedShadow(
   shadowAlpha: number,
   blurPx: number,
   offsetY: number,
-  layoutX: number,
-  layoutY: number,
-  layoutScale: number,
+  silhouette: string,
   opacity: number,
-): HTMLCanvasElement {
-  // Key must include layout so moving/scaling a layer invalidates the cache
-  const key = `${size}:${sv.toFixed(3)}:${fillR}:${fillG}:${fillB}:${layoutX.toFixed(2)}:${layoutY.toFixed(2)}:${layoutScale.toFixed(2)}:${opacity}`;
+): RenderCanvas {
+  // Key must include the silhouette so moving/scaling a layer (or editing a
+  // glass group's children) invalidates the cache
+  const key = `${size}:${sv.toFixed(3)}:${fillR}:${fillG}:${fillB}:${silhouette}:${opacity}`;
   const cached = shadowCache.get(layerId);
+  countCache('shadow', cached?.key === key);
   if (cached && cached.key === key) return cached.canvas;
 
-  const canvas = cached?.canvas ?? document.createElement('canvas');
+  const canvas = cached?.canvas ?? createCanvas();
   canvas.width = size;
   canvas.height = size;
-  const sc = canvas.getContext('2d')!;
+  const sc = getContext2D(canvas);
   sc.clearRect(0, 0, size, size);
   sc.save();
   sc.filter = `blur(${blurPx}px)`;
@@ -148,8 +167,7 @@ function getCachedShadow(
 
 // ─── Shared tiny canvas for color sampling (avoids per-render allocation) ────
 const _colorSampleCanvas = (() => {
-  const c = document.createElement('canvas');
-  c.width = c.height = 16;
+  const c = createCanvas(16);
   (c as any)._ctx = null; // lazy init
   return c;
 })();
@@ -159,9 +177,10 @@ const _colorSampleCanvas = (() => {
 // not when the layer moves. Cache it to avoid getImageData on every frame.
 const layerTintCache = new Map<string, { r: number; g: number; b: number }>();
 
-function getCachedBgCanvas(bg: BackgroundConfig, size: number): { canvas: HTMLCanvasElement; key: string } {
+function getCachedBgCanvas(bg: BackgroundConfig, size: number): { canvas: RenderCanvas; key: string } {
   const key = `${size}:${JSON.stringify(bg)}`;
   const cached = bgCanvasCache.get(key);
+  countCache('background', !!cached);
   if (cached) return cached;
   const canvas = createBackgroundCanvas(bg as any, size, size);
   const entry = { canvas, key };
@@ -173,14 +192,42 @@ function getCachedBgCanvas(bg: BackgroundConfig, size: number): { canvas: HTMLCa
   return entry;
 }
 
-async function getCachedImage(url: string): Promise<HTMLImageElement> {
+/**
+ * Hands a decoded layer image (and its hi-res version) to the renderer. The
+ * render worker has no Image element, so the main thread decodes for it.
+ */
+export function provideImage(url: string, image: RenderImage, hiRes?: RenderImage) {
+  imageCache.set(url, image);
+  if (hiRes) hiResImgCache.set(url, hiRes);
+}
+
+/**
+ * Drops a layer image (and its hi-res version) once its blob URL is revoked,
+ * closing decoded bitmaps right away instead of waiting for GC.
+ */
+export function releaseImage(url: string) {
+  for (const cache of [imageCache, hiResImgCache]) {
+    const image = cache.get(url);
+    if (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap) image.close();
+    cache.delete(url);
+  }
+}
+
+async function getCachedImage(url: string): Promise<RenderImage> {
+  countCache('image', imageCache.has(url));
   if (imageCache.has(url)) return imageCache.get(url)!;
+  if (typeof Image === 'undefined') {
+    // Worker, image not provided: raster formats still decode here
+    const bitmap = await createImageBitmap(await (await fetch(url)).blob());
+    imageCache.set(url, bitmap);
+    return bitmap;
+  }
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.crossOrigin = 'anonymous';
     img.onload = () => {
       imageCache.set(url, img);
-      if (img.naturalWidth <= 512 || img.naturalHeight <= 512) preloadHiRes(url);
+      if (img.naturalWidth <= HI_RES_THRESHOLD || img.naturalHeight <= HI_RES_THRESHOLD) preloadHiRes(url);
       resolve(img);
     };
     img.onerror = reject;
@@ -188,20 +235,25 @@ async function getCachedImage(url: string): Promise<HTMLImageElement> {
   });
 }
 
-// ─── WebGL singleton ──────────────────────────────────────────────────────────
+// ─── WebGL renderers ──────────────────────────────────────────────────────────
 
-let _glCanvas: HTMLCanvasElement | null = null;
-let _glRenderer: LiquidGlassRenderer | null = null;
-let _glSize = 0;
+// One renderer per render size — its FBOs match its canvas — so switching
+// between draft and final frames, or rendering a library thumbnail, reuses the
+// GL pipelines instead of rebuilding them. The least recently used renderer is
+// disposed beyond MAX_GL_RENDERERS.
+type GlEntry = { canvas: RenderCanvas; renderer: LiquidGlassRenderer };
+const MAX_GL_RENDERERS = 3;
+const _glRenderers = new Map<number, GlEntry>();
 let _lastWebglError = '';
 
-type ScratchCanvas = { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D };
+type ScratchCanvas = { canvas: RenderCanvas; ctx: Context2D };
 type ScratchPool = {
   getCanvas: (key: string, size: number) => ScratchCanvas;
   getImageData: (key: string, size: number) => ImageData;
+  canvasCount: () => number;
 };
 
-function resetScratch(ctx: CanvasRenderingContext2D, size: number): void {
+function resetScratch(ctx: Context2D, size: number): void {
   ctx.setTransform(1, 0, 0, 1, 0, 0);
   ctx.globalAlpha = 1;
   ctx.globalCompositeOperation = 'source-over';
@@ -221,10 +273,8 @@ function createScratchPool(): ScratchPool {
     getCanvas(key: string, size: number): ScratchCanvas {
       let entry = canvases.get(key);
       if (!entry) {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) throw new Error('Unable to create 2D context.');
-        entry = { canvas, ctx };
+        const canvas = createCanvas();
+        entry = { canvas, ctx: getContext2D(canvas) };
         canvases.set(key, entry);
       }
 
@@ -248,6 +298,9 @@ function createScratchPool(): ScratchPool {
       }
       return data;
     },
+    canvasCount(): number {
+      return canvases.size;
+    },
   };
 }
 
@@ -262,19 +315,51 @@ function reportWebglError(err: unknown) {
   }
 }
 
-function getWebGLRenderer(size: number): LiquidGlassRenderer | null {
+// The browser can take the GPU context away (backgrounding, GPU reset). While
+// it is gone layers render with Canvas 2D; once restored, the renderer has
+// rebuilt its pipeline and the cached fallback layers are dropped.
+function handleContextChange(entry: GlEntry, change: ContextChange, error?: unknown) {
+  if (change === 'lost') {
+    console.warn('WebGL2 context lost — rendering with Canvas 2D until it is restored.');
+    setWebgl2Status('lost');
+  } else if (change === 'restored') {
+    clearLayerCache();
+    setWebgl2Status('inactive');
+  } else {
+    // Start over with a fresh renderer on the next render
+    entry.renderer.dispose();
+    for (const [size, e] of _glRenderers) if (e === entry) _glRenderers.delete(size);
+    clearLayerCache();
+    reportWebglError(error);
+  }
+}
+
+/** True while the GPU context of the renderer for `size` is gone. */
+function glContextLost(size: number): boolean {
+  return _glRenderers.get(size)?.renderer.contextLost ?? false;
+}
+
+function getWebGLRenderer(size: number): GlEntry | null {
+  const existing = _glRenderers.get(size);
+  if (existing) {
+    // Nothing can be built on a lost context — wait for the restore
+    if (existing.renderer.contextLost) return null;
+    _glRenderers.delete(size);
+    _glRenderers.set(size, existing);
+    return existing;
+  }
   try {
-    if (!_glCanvas) _glCanvas = document.createElement('canvas');
-    // Recreate renderer if size changed (FBOs must match canvas size)
-    if (size !== _glSize) {
-      _glRenderer?.dispose();
-      _glRenderer = null;
-      _glCanvas.width = size;
-      _glCanvas.height = size;
-      _glSize = size;
+    const canvas = createCanvas(size);
+    let entry: GlEntry | null = null;
+    const renderer = new LiquidGlassRenderer(canvas, (change, error) => entry && handleContextChange(entry, change, error));
+    entry = { canvas, renderer };
+    _glRenderers.set(size, entry);
+    if (_glRenderers.size > MAX_GL_RENDERERS) {
+      const [oldest, evicted] = _glRenderers.entries().next().value!;
+      evicted.renderer.dispose();
+      _glRenderers.delete(oldest);
     }
-    if (!_glRenderer) _glRenderer = new LiquidGlassRenderer(_glCanvas);
-    return _glRenderer;
+    return entry;
   } catch (err) {
     reportWebglError(err);
     return null;
@@ -283,15 +368,15 @@ function getWebGLRenderer(size: number): LiquidGlassRenderer | null {
 
 // ─── Utility ──────────────────────────────────────────────────────────────────
 
-type ScratchRef = { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D };
+type ScratchRef = { canvas: RenderCanvas; ctx: Context2D };
 
 const scratchPool = new Map<string, ScratchRef>();
 
 function getScratchCanvas(key: string, width: number, height = width): ScratchRef {
   let entry = scratchPool.get(key);
   if (!entry) {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d')!;
+    const canvas = createCanvas();
+    const ctx = getContext2D(canvas);
     entry = { canvas, ctx };
     scratchPool.set(key, entry);
   }
@@ -330,6 +415,8 @@ function mapTranslucency(value: number, enabled: boolean, fallback: number): num
   return enabled ? Math.pow(clamped, 1.35) : clamped;
 }
 
+// Layers in draw order, bottom to top. A glass group is one glass piece, so it
+// stands in for its children.
 function collectRenderableLayers(layers: Layer[], parentId: string | null): Layer[] {
   const items = layers
     .filter((l) => l.parentId === parentId && l.visible)
@@ -337,7 +424,7 @@ function collectRenderableLayers(layers: Layer[], parentId: string | null): Laye
 
   const result: Layer[] = [];
   for (const item of items) {
-    if (item.type === 'group') {
+    if (item.type === 'group' && !item.liquidGlass?.enabled) {
       result.push(...collectRenderableLayers(layers, item.id));
     } else {
       result.push(item);
@@ -346,6 +433,23 @@ function collectRenderableLayers(layers: Layer[], parentId: string | null): Laye
   return result;
 }
 
+// Resolves per-appearance specializations (imported from .icon bundles) into
+// plain layers so the rest of the pipeline never has to know about them.
+function applyAppearanceOverrides(layers: Layer[], mode: AppearanceMode): Layer[] {
+  if (!layers.some((l) => l.appearances?.[mode])) return layers;
+  return layers.map((layer) => {
+    const o = layer.appearances?.[mode];
+    if (!o) return layer;
+    return {
+      ...layer,
+      visible: o.visible ?? layer.visible,
+      opacity: o.opacity ?? layer.opacity,
+      fill: o.fill ?? layer.fill,
+      liquidGlass: o.liquidGlass ? { ...layer.liquidGlass, ...o.liquidGlass } : layer.liquidGlass,
+    };
+  });
+}
+
 function findSpecularLayerId(layers: Layer[]): string | null {
   const ordered = collectRenderableLayers(layers, null);
   for (let i = ordered.length - 1; i >= 0; i -= 1) {
@@ -468,28 +572,23 @@ function parseHslString(hsl: string): { r: number; g: number; b: number } | null
 // ─── Canvas 2D Liquid Glass helper passes ─────────────────────────────────────
 
 /**
- * Drop shadow derived from the background color.
- * Single-pass: blurred silhouette tinted with a dark version of the bg hue.
- * Draws to `outCtx` BEFORE the glass content (back-most layer).
+ * Drop shadow derived from the background color: a blurred silhouette tinted
+ * with a dark version of the bg hue. Null when the layer casts no shadow.
  */
-function drawDropShadow(
-  outCtx: CanvasRenderingContext2D,
-  contentCanvas: HTMLCanvasElement,
+function dropShadowParams(
   size: number,
   shadow: LiquidGlassConfig['shadow'],
   background: BackgroundConfig,
   layerConfig: Layer,
-  scratch: ScratchPool,
-): void {
-  if (!shadow.enabled || shadow.value <= 0) return;
+): DropShadowParams | null {
+  if (!shadow.enabled || shadow.value <= 0) return null;
 
   const sv = shadow.value / 100;
-  
-  // --- 1. Draw the Original Blurred Drop Shadow ---
+
   // The drop shadow spreads out softly underneath everything.
-  const blurPx = sv * size * 0.05;
+  const blur = sv * size * 0.05;
   const offsetY = sv * size * 0.022;
-  const shadowAlpha = sv * 0.35;
+  const alpha = sv * 0.35;
 
   const { r, g, b } = shadowColorFromBackground(background);
 
@@ -515,62 +614,100 @@ function drawDropShadow(
     fillB = Math.round(b * 0.8 + fb * 0.15 * 0.2);
   }
 
+  return { color: { r: fillR, g: fillG, b: fillB }, alpha, blur, offsetY };
+}
+
+/**
+ * Draws the drop shadow to `outCtx` BEFORE the glass content (back-most layer).
+ */
+function drawDropShadow(
+  outCtx: Context2D,
+  contentCanvas: RenderCanvas,
+  size: number,
+  shadow: LiquidGlassConfig['shadow'],
+  background: BackgroundConfig,
+  layerConfig: Layer,
+  keys: ContentKeys,
+): void {
+  const params = dropShadowParams(size, shadow, background, layerConfig);
+  if (!params) return;
+
+  const { color, alpha, blur, offsetY } = params;
   const shadowCanvas = getCachedShadow(
-    layerConfig.id, contentCanvas, size, sv, fillR, fillG, fillB, shadowAlpha, blurPx, offsetY,
-    layerConfig.layout.x, layerConfig.layout.y, layerConfig.layout.scale, layerConfig.opacity,
+    layerConfig.id, contentCanvas, size, shadow.value / 100, color.r, color.g, color.b, alpha, blur, offsetY,
+    keys.silhouette, layerConfig.opacity,
   );
   outCtx.drawImage(shadowCanvas, 0, 0);
+}
+
+/**
+ * Dominant color of the layer (for rim tinting), averaged from a 16×16
+ * downsample and mixed 55% toward white for a highlight feel. Cached by
+ * tintCacheKey (blobUrl+fill) — only re-sampled when content changes, not on move.
+ */
+function sampleLayerColor(contentCanvas: RenderCanvas, tintCacheKey: string | null): { r: number; g: number; b: number } {
+  if (tintCacheKey) {
+    const hit = layerTintCache.get(tintCacheKey);
+    countCache('tint', !!hit);
+    if (hit) return hit;
+  }
+  const s = 16;
+  if (!(_colorSampleCanvas as any)._ctx) {
+    (_colorSampleCanvas as any)._ctx = getContext2D(_colorSampleCanvas);
+  }
+  const tc = (_colorSampleCanvas as any)._ctx as Context2D;
+  tc.clearRect(0, 0, s, s);
+  tc.drawImage(contentCanvas, 0, 0, s, s);
+  const data = tc.getImageData(0, 0, s, s).data;
+  let r = 0, g = 0, b = 0, n = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] > 60) { r += data[i]; g += data[i + 1]; b += data[i + 2]; n++; }
+  }
+  if (n === 0) return { r: 255, g: 255, b: 255 };
+  r = Math.round(r / n); g = Math.round(g / n); b = Math.round(b / n);
+  const mix = 0.55;
+  const color = {
+    r: Math.round(r + (255 - r) * mix),
+    g: Math.round(g + (255 - g) * mix),
+    b: Math.round(b + (255 - b) * mix),
+  };
+  if (tintCacheKey) {
+    layerTintCache.set(tintCacheKey, color);
+    if (layerTintCache.size > 32) layerTintCache.delete(layerTintCache.keys().next().value!);
+  }
+  return color;
+}
 
+/** Bevel geometry (px) — used by the Canvas 2D passes and the WebGL effects shader alike. */
+function bevelMetrics(size: number, liquidGlass: LiquidGlassConfig): BevelMetrics {
+  const blurT = liquidGlass.blur?.enabled ? liquidGlass.blur.value / 100 : 0;
+  const rimWidth = Math.max(3, size * LAYER_INNER_RIM_WIDTH + blurT * size * 0.010);
+  return {
+    domeBlur: Math.max(6, size * LAYER_DOME_BLUR_BASE + blurT * size * 0.018),
+    rimWidth,
+    rimMaskBlur: Math.max(1.2, rimWidth * 0.38),
+    rimBlur: Math.max(0.6, size * LAYER_INNER_RIM_BLUR),
+    innerShadowWidth: Math.max(2, size * LAYER_INNER_SHADOW_WIDTH + blurT * size * 0.006),
+    innerShadowBlur: Math.max(2, size * LAYER_INNER_SHADOW_BLUR + blurT * size * 0.003),
+    outerBorderWidth: Math.max(1.5, size * LAYER_OUTER_BORDER_WIDTH),
+  };
 }
 
 function drawLayerBevel(
-  outCtx: CanvasRenderingContext2D,
-  contentCanvas: HTMLCanvasElement,
+  outCtx: Context2D,
+  contentCanvas: RenderCanvas,
   size: number,
   lightAngle: number,
   tintCacheKey: string | null,
   liquidGlass: LiquidGlassConfig,
   scratch: ScratchPool,
+  draft = false,
 ): void {
   const angleRad = (lightAngle * Math.PI) / 180;
   const lx = Math.cos(angleRad);
   const ly = -Math.sin(angleRad);
-  const blurT = liquidGlass.blur?.enabled ? liquidGlass.blur.value / 100 : 0;
-
-  // Sample dominant color of the layer (for rim tinting).
-  // Averaged from a 16×16 downsample, mixed 55% toward white for highlight feel.
-  // Cached by tintCacheKey (blobUrl+fill) — only re-sampled when content changes, not on move.
-  const layerColor = (() => {
-    if (tintCacheKey) {
-      const hit = layerTintCache.get(tintCacheKey);
-      if (hit) return hit;
-    }
-    const s = 16;
-    if (!(_colorSampleCanvas as any)._ctx) {
-      (_colorSampleCanvas as any)._ctx = _colorSampleCanvas.getContext('2d')!;
-    }
-    const tc = (_colorSampleCanvas as any)._ctx as CanvasRenderingContext2D;
-    tc.clearRect(0, 0, s, s);
-    tc.drawImage(contentCanvas, 0, 0, s, s);
-    const data = tc.getImageData(0, 0, s, s).data;
-    let r = 0, g = 0, b = 0, n = 0;
-    for (let i = 0; i < data.length; i += 4) {
-      if (data[i + 3] > 60) { r += data[i]; g += data[i + 1]; b += data[i + 2]; n++; }
-    }
-    if (n === 0) return { r: 255, g: 255, b: 255 };
-    r = Math.round(r / n); g = Math.round(g / n); b = Math.round(b / n);
-    const mix = 0.55;
-    const color = {
-      r: Math.round(r + (255 - r) * mix),
-      g: Math.round(g + (255 - g) * mix),
-      b: Math.round(b + (255 - b) * mix),
-    };
-    if (tintCacheKey) {
-      layerTintCache.set(tintCacheKey, color);
-      if (layerTintCache.size > 32) layerTintCache.delete(layerTintCache.keys().next().value!);
-    }
-    return color;
-  })();
+  const metrics = bevelMetrics(size, liquidGlass);
+  const layerColor = sampleLayerColor(contentCanvas, tintCacheKey);
   const lc = (a: number) => `rgba(${layerColor.r},${layerColor.g},${layerColor.b},${a})`;
 
   // ── [1] Inner specular dome ───────────────────────────────────────────────
@@ -588,7 +725,7 @@ function drawLayerBevel(
     grad.addColorStop(1.00, 'rgba(255,255,255,0.00)');
     dc.fillStyle = grad;
     dc.fillRect(0, 0, size, size);
-    const blur = Math.max(6, size * LAYER_DOME_BLUR_BASE + blurT * size * 0.018);
+    const blur = metrics.domeBlur;
     outCtx.save();
     outCtx.globalCompositeOperation = 'screen';
     outCtx.globalAlpha = LAYER_DOME_INTENSITY;
@@ -600,14 +737,14 @@ function drawLayerBevel(
 
   // ── [2] Inner colored rim (+ interior holes) ─────────────────────────────
   {
-    const rimW = Math.max(3, size * LAYER_INNER_RIM_WIDTH + blurT * size * 0.010);
-    const blur = Math.max(0.6, size * LAYER_INNER_RIM_BLUR);
+    const rimW = metrics.rimWidth;
+    const blur = metrics.rimBlur;
 
-    const buildRimCanvas = (srcCanvas: HTMLCanvasElement, key: string, maskKey: string) => {
+    const buildRimCanvas = (srcCanvas: RenderCanvas, key: string, maskKey: string) => {
       const { canvas: rimCv, ctx: rc } = scratch.getCanvas(key, size);
       rc.drawImage(srcCanvas, 0, 0);
       const { canvas: mask, ctx: mc } = scratch.getCanvas(maskKey, size);
-      mc.filter = `blur(${Math.max(1.2, rimW * 0.38)}px)`;
+      mc.filter = `blur(${metrics.rimMaskBlur}px)`;
       mc.drawImage(srcCanvas, rimW / 2, rimW / 2, size - rimW, size - rimW);
       rc.globalCompositeOperation = 'destination-out';
       rc.drawImage(mask, 0, 0);
@@ -637,15 +774,15 @@ function drawLayerBevel(
     outCtx.drawImage(rimCv, 0, 0);
     outCtx.restore();
 
-    // Interior holes rim (transparent cutouts inside the shape)
-    {
+    // Interior holes rim (transparent cutouts inside the shape) — final quality only
+    if (!draft) {
       const { canvas: holeCv, ctx: hc } = scratch.getCanvas('layer-holes', size);
       hc.fillStyle = 'rgba(255,255,255,1)';
       hc.fillRect(0, 0, size, size);
       hc.globalCompositeOperation = 'destination-out';
       hc.drawImage(contentCanvas, 0, 0);
       const { canvas: holeMask, ctx: hm } = scratch.getCanvas('layer-holes-mask', size);
-      hm.filter = `blur(${Math.max(1.2, rimW * 0.38)}px)`;
+      hm.filter = `blur(${metrics.rimMaskBlur}px)`;
       hm.drawImage(holeCv, rimW / 2, rimW / 2, size - rimW, size - rimW);
       hc.globalCompositeOperation = 'destination-out';
       hc.drawImage(holeMask, 0, 0);
@@ -680,9 +817,12 @@ function drawLayerBevel(
     }
   }
 
+  // Draft renders stop at the primary dome + rim
+  if (draft) return;
+
   // ── [4] Inner shadow on the shadow side ──────────────────────────────────
   {
-    const darkW = Math.max(2, size * LAYER_INNER_SHADOW_WIDTH + blurT * size * 0.006);
+    const darkW = metrics.innerShadowWidth;
     const { canvas: darkCv, ctx: dc } = scratch.getCanvas('layer-inner-shadow', size);
     dc.drawImage(contentCanvas, 0, 0);
     const { canvas: darkMask, ctx: dm } = scratch.getCanvas('layer-inner-shadow-mask', size);
@@ -700,7 +840,7 @@ function drawLayerBevel(
     grad.addColorStop(0.50, 'rgba(0,0,10,0.00)');
     dc.fillStyle = grad;
     dc.fillRect(0, 0, size, size);
-    const blur = Math.max(2, size * LAYER_INNER_SHADOW_BLUR + blurT * size * 0.003);
+    const blur = metrics.innerShadowBlur;
     outCtx.save();
     outCtx.globalCompositeOperation = 'multiply';
     outCtx.globalAlpha = LAYER_INNER_SHADOW_ALPHA_BLUR;
@@ -714,7 +854,7 @@ function drawLayerBevel(
 
   // ── [5] Outer border ring (layer color, outside shape) ───────────────────
   {
-    const dilate = Math.max(1.5, size * LAYER_OUTER_BORDER_WIDTH);
+    const dilate = metrics.outerBorderWidth;
     const expand = dilate * 2;
     const { canvas: outerCv, ctx: oc } = scratch.getCanvas('layer-outer-border', size);
     oc.filter = `blur(${Math.max(0.5, dilate * 0.5)}px)`;
@@ -737,18 +877,21 @@ function drawLayerBevel(
  * Passes: shadow → blurred bg → tint → content → specular → rim → border → inner shadow.
  */
 async function renderLayerCanvas2D(
-  outCtx: CanvasRenderingContext2D,
-  contentCanvas: HTMLCanvasElement,
+  outCtx: Context2D,
+  contentCanvas: RenderCanvas,
   size: number,
   mode: AppearanceMode,
   lightAngle: number,
-  bgCanvas: HTMLCanvasElement,
+  bgCanvas: RenderCanvas,
   liquidGlass: LiquidGlassConfig,
   layerOpacity: number,
   layerBlendMode: string,
   background: BackgroundConfig,
   layer: Layer,
+  keys: ContentKeys,
   scratch: ScratchPool,
+  draft: boolean,
+  signal?: AbortSignal,
 ): Promise<void> {
   const dark = isDarkMode(mode);
   const angleRad = (lightAngle * Math.PI) / 180;
@@ -766,9 +909,13 @@ async function renderLayerCanvas2D(
   const minTranslucency = Math.max(translucency, 0.18);
   const lumaWeight = Math.min(layerLuma * 4, 1);
   const smartTranslucency = minTranslucency + (translucency - minTranslucency) * lumaWeight;
+  // Dispersion is WebGL-only — the displacement loop below moves all channels together
+  const optics = glassOptics(liquidGlass);
 
   // ── 1. Drop shadow ────────────────────────────────────────────────────────
-  drawDropShadow(outCtx, contentCanvas, size, liquidGlass.shadow, background, layer, scratch);
+  const shadowStart = performance.now();
+  drawDropShadow(outCtx, contentCanvas, size, liquidGlass.shadow, background, layer, keys);
+  endStage('shadow', shadowStart);
 
   // ── 2. Blurred background with displacement refraction ─────────────────────
   {
@@ -778,19 +925,23 @@ async function renderLayerCanvas2D(
     bb.drawImage(bgCanvas, 0, 0);
     bb.filter = 'none';
 
-    // ── Displacement refraction: shift blurred bg pixels based on alpha gradient ──
+    // ── Displacement refraction: shift blurred bg pixels across the bevel ──
     // This creates visible edge bending/magnification that was previously
-    // only available in the WebGL path. Uses a downsampled grid for performance.
-    const refractionStrength = 8; // max pixel displacement at edges
-    if (refractionStrength > 0 && size >= 64) {
+    // only available in the WebGL path. The bevel profile comes from the
+    // silhouette's distance field, the direction from its gradient.
+    // Skipped for drafts — the per-pixel loop dominates the Canvas 2D path.
+    const refractionStrength = 8 * optics.refraction; // max pixel displacement at edges
+    if (!draft && refractionStrength > 0 && size >= 64) {
       // Read content alpha to compute gradient (displacement map)
-      const contentCtx = contentCanvas.getContext('2d')!;
+      const contentCtx = getContext2D(contentCanvas);
       const alphaData = contentCtx.getImageData(0, 0, size, size);
       const bgData = bb.getImageData(0, 0, size, size);
       const outData = scratch.getImageData('layer-refraction', size);
       const src = bgData.data;
       const dst = outData.data;
       const alpha = alphaData.data;
+      const field = getDistanceField(keys.silhouette, alpha, size);
+      const bevelWidth = Math.max(1, size * LAYER_BEVEL_WIDTH * optics.thickness);
 
       for (let y = 1; y < size - 1; y++) {
         for (let x = 1; x < size - 1; x++) {
@@ -804,19 +955,24 @@ async function renderLayerCanvas2D(
             continue;
           }
 
-          // Central-difference alpha gradient
-          const aR = alpha[((y) * size + (x+1)) * 4 + 3] / 255;
-          const aL = alpha[((y) * size + (x-1)) * 4 + 3] / 255;
-          const aU = alpha[((y-1) * size + (x)) * 4 + 3] / 255;
-          const aD = alpha[((y+1) * size + (x)) * 4 + 3] / 255;
-          const gx = (aR - aL) * 0.5;
-          const gy = (aD - aU) * 0.5;
+          // Bevel profile: full displacement at the edge, none one bevel width in
+          const d = field[y * size + x];
+          const profile = 1 - Math.min(Math.max((d - 0.5) / bevelWidth, 0), 1);
+
+          // Inward direction: the distance field's gradient inside, the alpha
+          // gradient on the anti-aliased edge where the field is still 0
+          let gx: number, gy: number;
+          if (d > 1) {
+            gx = field[y * size + x + 1] - field[y * size + x - 1];
+            gy = field[(y + 1) * size + x] - field[(y - 1) * size + x];
+          } else {
+            gx = alpha[(y * size + x + 1) * 4 + 3] - alpha[(y * size + x - 1) * 4 + 3];
+            gy = alpha[((y + 1) * size + x) * 4 + 3] - alpha[((y - 1) * size + x) * 4 + 3];
+          }
           const gradLen = Math.sqrt(gx * gx + gy * gy);
-
-          // Only displace near edges (where gradient is significant)
-          const edgeFactor = Math.min(gradLen * 4, 1);
-          const dx = gx * refractionStrength * edgeFactor;
-          const dy = gy * refractionStrength * edgeFactor;
+          const shift = gradLen > 1e-6 ? (profile * profile * refractionStrength * 0.5) / gradLen : 0;
+          const dx = gx * shift;
+          const dy = gy * shift;
 
           // Sample source with displacement (bilinear)
           const sx = Math.max(0, Math.min(size - 1, x + dx));
@@ -854,6 +1010,11 @@ async function renderLayerCanvas2D(
     const { canvas: tintCanvas, ctx: tc } = scratch.getCanvas('layer-tint', size);
     tc.fillStyle = tintColor;
     tc.fillRect(0, 0, size, size);
+    const { r: tr, g: tg, b: tb, a: ta } = optics.tint;
+    if (ta > 0) {
+      tc.fillStyle = `rgba(${tr},${tg},${tb},${ta})`;
+      tc.fillRect(0, 0, size, size);
+    }
     tc.globalCompositeOperation = 'destination-in';
     tc.drawImage(contentCanvas, 0, 0);
     cc.drawImage(tintCanvas, 0, 0);
@@ -875,18 +1036,21 @@ async function renderLayerCanvas2D(
   }
 
   // ── 4. Specular highlight (corner-anchored, fades inward) ────────────────
-  if (liquidGlass.specular) {
-    // Place hotspot at the lit corner � tighter and edge-limited (no visible ball)
-    const hx = size * (0.5 + lx * 0.50);
-    const hy = size * (0.5 + ly * 0.50);
+  if (liquidGlass.specular && optics.glare > 0) {
+    // Place hotspot at the lit corner (turned by the glare angle) — tighter and
+    // edge-limited (no visible ball)
+    const glareRad = angleRad + (optics.glareAngle * Math.PI) / 180;
+    const hx = size * (0.5 + Math.cos(glareRad) * 0.50);
+    const hy = size * (0.5 - Math.sin(glareRad) * 0.50);
 
     const { canvas: specCanvas, ctx: sc } = scratch.getCanvas('layer-spec', size);
 
     // Tight radial glow that stays close to the rim
-    const specGrad = sc.createRadialGradient(hx, hy, 0, hx, hy, size * LAYER_SPECULAR_RADIUS);
+    const specGrad = sc.createRadialGradient(hx, hy, 0, hx, hy, size * LAYER_SPECULAR_RADIUS * optics.glareSpread);
+    const peak = Math.min(1, LAYER_SPECULAR_PEAK_ALPHA * optics.glare);
     for (let i = 0; i <= 14; i++) {
       const t = i / 14;
-      specGrad.addColorStop(t, `rgba(255,255,255,${(LAYER_SPECULAR_PEAK_ALPHA * Math.pow(1 - t, 4.2)).toFixed(3)})`);
+      specGrad.addColorStop(t, `rgba(255,255,255,${(peak * Math.pow(1 - t, 4.2 * optics.glareFocus)).toFixed(3)})`);
     }
     sc.fillStyle = specGrad;
     sc.fillRect(0, 0, size, size);
@@ -910,7 +1074,11 @@ async function renderLayerCanvas2D(
   }
 
   // ── 5. Fresnel rim light ──────────────────────────────────────────────────
-  {
+  // Falloff pulls the gradient toward the lit edge; hardness fades the shadow side
+  if (optics.fresnel > 0) {
+    const fresnelAlpha = (a: number) => Math.min(1, a * optics.fresnel).toFixed(3);
+    const midStop = Math.min(0.45, 0.22 / optics.fresnelFalloff);
+    const fadeStop = Math.min(0.9, 0.55 / optics.fresnelFalloff);
     const gx1 = size * (0.5 + lx * 0.56);
     const gy1 = size * (0.5 + ly * 0.56);
     const gx2 = size * (0.5 - lx * 0.56);
@@ -919,10 +1087,10 @@ async function renderLayerCanvas2D(
     const { canvas: rimCanvas, ctx: rc } = scratch.getCanvas('layer-rim', size);
 
     const rimGrad = rc.createLinearGradient(gx1, gy1, gx2, gy2);
-    rimGrad.addColorStop(0.00, `rgba(255,255,255,${LAYER_FRESNEL_LIT_ALPHA})`);
-    rimGrad.addColorStop(0.22, `rgba(255,255,255,${LAYER_FRESNEL_MID_ALPHA})`);
-    rimGrad.addColorStop(0.55, 'rgba(255,255,255,0.01)');
-    rimGrad.addColorStop(1.00, `rgba(255,255,255,${LAYER_FRESNEL_SHADOW_ALPHA})`);
+    rimGrad.addColorStop(0.00, `rgba(255,255,255,${fresnelAlpha(LAYER_FRESNEL_LIT_ALPHA)})`);
+    rimGrad.addColorStop(midStop, `rgba(255,255,255,${fresnelAlpha(LAYER_FRESNEL_MID_ALPHA)})`);
+    rimGrad.addColorStop(fadeStop, `rgba(255,255,255,${fresnelAlpha(0.01)})`);
+    rimGrad.addColorStop(1.00, `rgba(255,255,255,${fresnelAlpha(LAYER_FRESNEL_SHADOW_ALPHA / optics.fresnelHardness)})`);
 
     rc.fillStyle = rimGrad;
     rc.fillRect(0, 0, size, size);
@@ -1018,8 +1186,10 @@ async function renderLayerCanvas2D(
   }
 
   // ── 6. Layer bevel (inner bright rim + dark outer border) ────────────────
-  const _tintKey2D = `${layer.id}:${layer.blobUrl ?? ''}:${layer.fill.type}:${layer.fill.type === 'solid' ? (layer.fill as any).color ?? '' : ''}`;
-  drawLayerBevel(outCtx, contentCanvas, size, lightAngle, _tintKey2D, liquidGlass, scratch);
+  signal?.throwIfAborted();
+  const bevelStart = performance.now();
+  drawLayerBevel(outCtx, contentCanvas, size, lightAngle, keys.tint, liquidGlass, scratch, draft);
+  endStage('bevel', bevelStart);
 
   // ── 7. Directional Inner Shadow (away from light) ─────────────────────────
   {
@@ -1054,29 +1224,22 @@ async function buildContentCanvas(
   layer: Layer,
   size: number,
   appearanceMode: AppearanceMode = 'default',
-): Promise<HTMLCanvasElement> {
-  const { layout } = layer;
-  const scale = layout.scale / 100;
-  const offsetX = (layout.x / 100) * size;
-  const offsetY = (layout.y / 100) * size;
+): Promise<RenderCanvas> {
   const isClear = appearanceMode === 'clear';
   const isDark  = appearanceMode === 'dark';
 
-  const canvas = document.createElement('canvas');
+  const canvas = createCanvas();
   canvas.width = canvas.height = size;
-  const ctx = canvas.getContext('2d')!;
+  const ctx = getContext2D(canvas);
 
   ctx.save();
-  ctx.translate(size / 2 + offsetX, size / 2 + offsetY);
-  ctx.scale(scale, scale);
-  ctx.translate(-size / 2, -size / 2);
+  applyLayoutTransform(ctx, layer.layout, size);
 
   if (layer.blobUrl) {
     // Image-based layer
     try {
       const img = await getCachedImage(layer.blobUrl);
-      const iw = img.naturalWidth;
-      const ih = img.naturalHeight;
+      const { width: iw, height: ih } = imageSize(img);
       const sc = Math.min(size / iw, size / ih);
       const w = iw * sc;
       const h = ih * sc;
@@ -1154,9 +1317,9 @@ async function buildContentCanvas(
   // At 1000px canvas a 0.8px blur is invisible to the eye but eliminates aliasing
   // in the glass border glow and Fresnel rim.
   const blurPx = Math.max(1.0, size * 0.0013);
-  const softCanvas = document.createElement('canvas');
+  const softCanvas = createCanvas();
   softCanvas.width = softCanvas.height = size;
-  const sc = softCanvas.getContext('2d')!;
+  const sc = getContext2D(softCanvas);
   sc.filter = `blur(${blurPx}px)`;
   sc.drawImage(canvas, 0, 0);
   return softCanvas;
@@ -1164,31 +1327,123 @@ async function buildContentCanvas(
 
 // ─── Render a single layer ────────────────────────────────────────────────────
 
+/** Cache keys for what a content canvas shows. */
+interface ContentKeys {
+  /** Content alpha at the render size — distance field and drop shadow */
+  silhouette: string;
+  /** Content colours, for the rim tint sample */
+  tint: string;
+}
+
+/**
+ * A glass group's children merged into one content canvas, rendered as a
+ * single glass piece in place of the group's own (empty) content.
+ */
+interface GroupContent {
+  canvas: RenderCanvas;
+  keys: ContentKeys;
+}
+
+function layerContentKeys(layer: Layer, size: number): ContentKeys {
+  // The silhouette depends on the artwork and layout only, not on fill colour
+  // or glass settings
+  const shape = layer.blobUrl
+    ? `${layer.blobUrl}:${hiResImgCache.has(layer.blobUrl)}`
+    : `fill:${layer.fill.type !== 'none'}`;
+  const fill = layer.fill;
+  return {
+    silhouette: hashString(`${size}:${shape}:${JSON.stringify(layer.layout)}`),
+    tint: `${layer.id}:${layer.blobUrl ?? ''}:${fill.type}:${fill.type === 'solid' ? fill.color : ''}`,
+  };
+}
+
+/**
+ * Identifies everything a glass group's merged content depends on: its
+ * visible descendants' settings, stacking order and loaded artwork.
+ */
+function groupContentKey(layers: Layer[], groupId: string, visited = new Set<string>()): string {
+  visited.add(groupId);
+  return layers
+    .filter((l) => l.parentId === groupId && l.visible && !visited.has(l.id))
+    .sort((a, b) => a.order - b.order)
+    .map((l) => {
+      const { name: _name, ...config } = l;
+      const hiRes = l.blobUrl ? hiResImgCache.has(l.blobUrl) : false;
+      const nested = l.type === 'group' ? groupContentKey(layers, l.id, visited) : '';
+      return `${JSON.stringify(config)}:${hiRes}[${nested}]`;
+    })
+    .join('|');
+}
+
+/**
+ * Merges a glass group's visible children into one content canvas: layers are
+ * drawn without glass (opacity and blend mode kept) and nested groups are
+ * flattened with their own opacity and blend mode.
+ */
+async function buildGroupContent(
+  group: Layer,
+  layers: Layer[],
+  size: number,
+  mode: AppearanceMode,
+  visited = new Set<string>(),
+  signal?: AbortSignal,
+): Promise<RenderCanvas> {
+  visited.add(group.id);
+  const canvas = createCanvas();
+  canvas.width = canvas.height = size;
+  const ctx = getContext2D(canvas);
+
+  const children = layers
+    .filter((l) => l.parentId === group.id && l.visible && !visited.has(l.id))
+    .sort((a, b) => a.order - b.order);
+  for (const child of children) {
+    signal?.throwIfAborted();
+    const content = child.type === 'group'
+      ? await buildGroupContent(child, layers, size, mode, visited, signal)
+      : await buildContentCanvas(child, size, mode);
+    ctx.save();
+    ctx.globalAlpha = child.opacity / 100;
+    ctx.globalCompositeOperation = blendModeToCanvas(child.blendMode);
+    ctx.drawImage(content, 0, 0);
+    ctx.restore();
+  }
+  return canvas;
+}
+
 async function renderLayerToCanvas(
   layer: Layer,
   size: number,
   mode: AppearanceMode,
   lightAngle: number,
-  bgCanvas: HTMLCanvasElement,
+  bgCanvas: RenderCanvas,
   background: BackgroundConfig,
   scratch: ScratchPool,
   allowSpecular: boolean,
   bgKey = '',
-): Promise<HTMLCanvasElement | null> {
+  draft = false,
+  allowWebgl = true,
+  signal?: AbortSignal,
+  groupContent?: GroupContent,
+): Promise<RenderCanvas | null> {
   if (!layer.visible) return null;
 
-  const contentCanvas = await buildContentCanvas(layer, size, mode);
+  const buildStart = performance.now();
+  const contentCanvas = groupContent?.canvas ?? await buildContentCanvas(layer, size, mode);
+  const keys = groupContent?.keys ?? layerContentKeys(layer, size);
+  endStage('contentBuild', buildStart);
+  signal?.throwIfAborted();
   const liquidGlass = allowSpecular
     ? layer.liquidGlass
     : { ...layer.liquidGlass, specular: false };
 
   // ── Output canvas ─────────────────────────────────────────────────────────
-  const out = document.createElement('canvas');
+  const out = createCanvas();
   out.width = out.height = size;
-  const outCtx = out.getContext('2d')!;
+  const outCtx = getContext2D(out);
 
   if (!liquidGlass.enabled) {
     // Plain pass-through
+    setLayerPath('plain');
     outCtx.save();
     outCtx.globalAlpha = layer.opacity / 100;
     outCtx.globalCompositeOperation = blendModeToCanvas(layer.blendMode);
@@ -1197,9 +1452,11 @@ async function renderLayerToCanvas(
     return out;
   }
 
+  const optics = glassOptics(liquidGlass);
+
   // ── Try WebGL path ────────────────────────────────────────────────────────
-  const renderer = getWebGLRenderer(size);
-  if (renderer && _glCanvas) {
+  const gl = allowWebgl ? getWebGLRenderer(size) : null;
+  if (gl) {
     try {
       const glMode: 0 | 1 | 2 =
         mode === 'dark' ? 1
@@ -1220,36 +1477,46 @@ async function renderLayerToCanvas(
         mode: glMode,
         darkAdjust: liquidGlass.dark?.enabled ? liquidGlass.dark.value / 100 : 0,
         monoAdjust: liquidGlass.mono?.enabled ? liquidGlass.mono.value / 100 : 0,
-        aberration: 0.65, // always-on chromatic aberration at moderate intensity
+        aberration: 0.65 * optics.dispersion, // chromatic aberration, moderate by default
+        optics,
+        bevelWidth: size * LAYER_BEVEL_WIDTH * optics.thickness,
       };
 
-      renderer.render(contentCanvas, bgCanvas, params, bgKey);
-      setWebgl2Status('active');
+      // Drop shadow, glass and bevel are all composited on the GPU
+      const effects: LayerEffects = {
+        layerColor: sampleLayerColor(contentCanvas, keys.tint),
+        bevel: bevelMetrics(size, liquidGlass),
+        shadow: dropShadowParams(size, liquidGlass.shadow, background, layer),
+        draft,
+      };
 
-      // ── Drop shadow (Canvas 2D, pre-glass) ────────────────────────────────
-      drawDropShadow(outCtx, contentCanvas, size, liquidGlass.shadow, background, layer, scratch);
+      signal?.throwIfAborted();
+      // Reading the GL canvas back waits for the GPU, so this covers its work too
+      const glassStart = performance.now();
+      gl.renderer.render(contentCanvas, bgCanvas, params, effects, bgKey, keys.silhouette);
+      setWebgl2Status('active');
 
-      // ── WebGL glass result ────────────────────────────────────────────────
       outCtx.save();
       outCtx.globalCompositeOperation = blendModeToCanvas(layer.blendMode);
-      outCtx.drawImage(_glCanvas, 0, 0);
+      outCtx.drawImage(gl.canvas, 0, 0);
       outCtx.restore();
-
-      // ── Layer bevel (inner bright rim + dark outer border) ────────────────
-      const _tintKeyGL = `${layer.id}:${layer.blobUrl ?? ''}:${layer.fill.type}:${layer.fill.type === 'solid' ? (layer.fill as any).color ?? '' : ''}`;
-      drawLayerBevel(outCtx, contentCanvas, size, lightAngle, _tintKeyGL, liquidGlass, scratch);
+      endStage('gpuGlass', glassStart);
+      setLayerPath('webgl');
 
       return out;
     } catch (err) {
-      reportWebglError(err);
+      if (signal?.aborted) throw err;
+      if (err instanceof WebGLContextLostError) setWebgl2Status('lost');
+      else reportWebglError(err);
       // fall through to Canvas 2D
     }
   }
 
   // ── Canvas 2D fallback ────────────────────────────────────────────────────
+  setLayerPath('canvas2d');
   await renderLayerCanvas2D(
     outCtx, contentCanvas, size, mode, lightAngle, bgCanvas,
-    liquidGlass, layer.opacity, layer.blendMode, background, layer, scratch,
+    liquidGlass, layer.opacity, layer.blendMode, background, layer, keys, scratch, draft, signal,
   );
 
   return out;
@@ -1258,14 +1525,46 @@ async function renderLayerToCanvas(
 
 // ─── Main compositor ──────────────────────────────────────────────────────────
 
-export async function renderIconToCanvas(
-  outputCanvas: HTMLCanvasElement,
+// Renders share scratch canvases and the WebGL renderer (which is resized to
+// the render size), so they must never interleave — e.g. a library thumbnail
+// while the canvas view is rendering. Each render waits for the previous one.
+//
+// An aborted render stops at the next layer or heavy pass and rejects with the
+// signal's reason (an AbortError); the output canvas is left untouched.
+let renderQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Renders the icon into `outputCanvas`. Resolves with the frame's diagnostics
+ * when `ctx.diagnostics` is set, otherwise with null.
+ */
+export function renderIconToCanvas(
+  outputCanvas: RenderCanvas,
   ctx: RenderContext,
-): Promise<void> {
-  const { layers, background, lightAngle, appearanceMode, size } = ctx;
+  signal?: AbortSignal,
+): Promise<FrameReport | null> {
+  const run = renderQueue.then(() => {
+    signal?.throwIfAborted();
+    return renderIconNow(outputCanvas, ctx, signal);
+  });
+  renderQueue = run.then(() => {}, () => {});
+  return run;
+}
+
+async function renderIconNow(
+  outputCanvas: RenderCanvas,
+  ctx: RenderContext,
+  signal?: AbortSignal,
+): Promise<FrameReport | null> {
+  const { background, lightAngle, appearanceMode, size } = ctx;
+  const layers = applyAppearanceOverrides(ctx.layers, appearanceMode);
+  const masked = ctx.shape !== 'square';
+  const draft = ctx.quality === 'draft';
+  // Also drops a frame left open by an aborted render
+  if (ctx.diagnostics) beginFrame(size, ctx.quality ?? 'final');
+  else abandonFrame();
 
   // Reset per-render WebGL indicator (set to active if any layer uses WebGL).
-  setWebgl2Status('inactive');
+  setWebgl2Status(glContextLost(size) ? 'lost' : 'inactive');
   const scratch = createScratchPool();
   const specularLayerId = findSpecularLayerId(layers);
 
@@ -1287,7 +1586,8 @@ export async function renderIconToCanvas(
 
 
   // ── Squircle drop shadow (default/dark only — clear mode exports as transparent PNG) ──
-  if (appearanceMode !== 'clear') {
+  if (masked && appearanceMode !== 'clear') {
+    const shadowStart = performance.now();
     // In dark mode the bg is always #1C1C1E — use a neutral near-black shadow
     const { r: sr, g: sg, b: sb } = appearanceMode === 'dark'
       ? { r: 0, g: 0, b: 0 }
@@ -1301,89 +1601,136 @@ export async function renderIconToCanvas(
     c.fillStyle = '#000000'; // opaque — gets covered by the real icon below
     c.fill();
     c.restore();
+    endStage('shadow', shadowStart);
   }
 
   // ── Squircle-clipped icon content ─────────────────────────────────────────
   c.save();
-  drawSquirclePath(c, 0, 0, size);
-  c.clip();
-
-  // Draw background — clear mode has transparent bg (only glass blur uses bgCanvas)
-  if (appearanceMode !== 'clear') {
-    c.drawImage(bgCanvas, 0, 0, size, size);
-  }
-
-  // Sort and composite layers with feed-forward glass compositing:
-  // Each glass layer refracts through the accumulated result of all layers
-  // below it (background + earlier layers), creating proper glass-on-glass depth.
-  const rootLayers = [...layers]
-    .filter((l) => l.visible && l.parentId === null)
-    .sort((a, b) => a.order - b.order);
-
-  // Running background: starts as the base background, accumulates composited layers
-  const runningBg = document.createElement('canvas');
-  runningBg.width = runningBg.height = size;
-  const rbCtx = runningBg.getContext('2d')!;
-  rbCtx.drawImage(glassBgCanvas, 0, 0);
-
-  for (const layer of rootLayers) {
-    // Determine which bg canvas to feed to glass: the running composite
-    const feedBg = layer.liquidGlass?.enabled ? runningBg : glassBgCanvas;
-
-    if (layer.type === 'group') {
-      const children = [...layers]
-        .filter((l) => l.parentId === layer.id && l.visible)
-        .sort((a, b) => a.order - b.order);
+  // An abort mid-render must not leave the clip on the shared master buffer
+  try {
+    if (masked) {
+      drawSquirclePath(c, 0, 0, size);
+      c.clip();
+    }
 
-      // Render all children into an intermediate canvas, then apply group opacity once
-      const groupCanvas = document.createElement('canvas');
-      groupCanvas.width = groupCanvas.height = size;
-      const gc = groupCanvas.getContext('2d')!;
+    // Draw background — clear mode has transparent bg (only glass blur uses bgCanvas)
+    if (appearanceMode !== 'clear' && !ctx.omitBackground) {
+      c.drawImage(bgCanvas, 0, 0, size, size);
+    }
 
-      for (const child of children) {
-        const childFeedBg = child.liquidGlass?.enabled ? runningBg : glassBgCanvas;
-        const lc = await renderLayerToCanvas(
-          child,
+    // Composite layers with feed-forward glass compositing:
+    // Each glass layer refracts through the accumulated result of all layers
+    // below it (background + earlier layers), creating proper glass-on-glass depth.
+
+    // Running background: starts as the base background, accumulates composited layers
+    const runningBg = createCanvas();
+    runningBg.width = runningBg.height = size;
+    const rbCtx = getContext2D(runningBg);
+    rbCtx.drawImage(glassBgCanvas, 0, 0);
+
+    // Layer outputs come from the layer cache when nothing they depend on
+    // changed. `runningKey` hashes everything composited into runningBg so far;
+    // only glass layers see runningBg, the others just the base background.
+    const frameKey = hashString(`${size}:${draft}:${ctx.backend ?? 'auto'}:${appearanceMode}:${lightAngle}:${glassBgKey}:${JSON.stringify(background)}`);
+    let runningKey = frameKey;
+
+    // A glass group renders here as one layer, its children merged into its content
+    const renderLayer = async (l: Layer): Promise<RenderCanvas | null> => {
+      const glass = !!l.liquidGlass?.enabled;
+      const specular = l.id === specularLayerId;
+      const isGroup = l.type === 'group';
+      const { name: _name, order: _order, ...config } = l;
+      const contentKey = isGroup ? groupContentKey(layers, l.id) : '';
+      // A frame drawn before the hi-res artwork arrived must not outlive it
+      const hiRes = l.blobUrl ? hiResImgCache.has(l.blobUrl) : false;
+      const key = hashString(`${glass ? runningKey : frameKey}|${specular}|${JSON.stringify(config)}|${hiRes}|${contentKey}`);
+
+      let lc: RenderCanvas | null;
+      beginLayer(l.id, l.name);
+      const cached = getCachedLayer(key);
+      countCache('layer', !!cached);
+      if (cached) {
+        if (cached.webgl && !glContextLost(size)) setWebgl2Status('active');
+        lc = cached.canvas;
+      } else {
+        let groupContent: GroupContent | undefined;
+        if (isGroup) {
+          const buildStart = performance.now();
+          const canvas = await buildGroupContent(l, layers, size, appearanceMode, new Set(), signal);
+          endStage('contentBuild', buildStart);
+          const contentHash = hashString(contentKey);
+          groupContent = {
+            canvas,
+            keys: { silhouette: hashString(`${size}:${l.id}:${contentHash}`), tint: `${l.id}:${contentHash}` },
+          };
+        }
+        lc = await renderLayerToCanvas(
+          l,
           size,
           appearanceMode,
           lightAngle,
-          childFeedBg,
+          // Glass refracts the running composite
+          glass ? runningBg : glassBgCanvas,
           background,
           scratch,
-          child.id === specularLayerId,
-          glassBgKey,
+          specular,
+          // Identifies the background the glass is fed — layers on the same
+          // one share its blur
+          runningKey,
+          draft,
+          ctx.backend !== 'canvas2d',
+          signal,
+          groupContent,
         );
-        if (lc) {
-          gc.drawImage(lc, 0, 0);
-          // Update running bg with this child's output
-          rbCtx.drawImage(lc, 0, 0);
-        }
+        if (lc) storeLayer(key, lc, glass && $webgl2Status.get() === 'active');
       }
-
-      c.globalAlpha = layer.opacity / 100;
-      c.drawImage(groupCanvas, 0, 0);
-      c.globalAlpha = 1;
-    } else {
-      const lc = await renderLayerToCanvas(
-        layer,
-        size,
-        appearanceMode,
-        lightAngle,
-        feedBg,
-        background,
-        scratch,
-        layer.id === specularLayerId,
-        glassBgKey,
-      );
+      endLayer();
       if (lc) {
-        c.drawImage(lc, 0, 0);
         // Update running bg with this layer's output for subsequent layers
         rbCtx.drawImage(lc, 0, 0);
+        runningKey = hashString(`${runningKey}|${key}`);
       }
-    }
-  }
+      return lc;
+    };
+
+    // Draws the visible children of `parentId` into `target`, bottom to top.
+    // A group renders its subtree into its own canvas first, so its opacity and
+    // blend mode apply once to the merged result — at every nesting level. A
+    // group with glass enabled is a single glass piece instead: one shadow,
+    // specular and bevel on the union of its children.
+    // Only layers reachable from the root are visited, so a parent cycle in a
+    // damaged document can't recurse forever.
+    const compositeChildren = async (parentId: string | null, target: Context2D): Promise<void> => {
+      const children = layers
+        .filter((l) => l.visible && l.parentId === parentId)
+        .sort((a, b) => a.order - b.order);
+
+      for (const layer of children) {
+        signal?.throwIfAborted();
 
-  c.restore(); // end squircle clip
+        if (layer.type === 'group' && !layer.liquidGlass?.enabled) {
+          const groupCanvas = createCanvas();
+          groupCanvas.width = groupCanvas.height = size;
+          await compositeChildren(layer.id, getContext2D(groupCanvas));
+
+          target.save();
+          target.globalAlpha = layer.opacity / 100;
+          target.globalCompositeOperation = blendModeToCanvas(layer.blendMode);
+          target.drawImage(groupCanvas, 0, 0);
+          target.restore();
+        } else {
+          const lc = await renderLayer(layer);
+          if (lc) target.drawImage(lc, 0, 0);
+        }
+      }
+    };
+
+    await compositeChildren(null, c);
+
+  } finally {
+    c.restore(); // end squircle clip
+  }
+  signal?.throwIfAborted();
 
   // ── Squircle glass rim ────────────────────────────────────────────────────
   //
@@ -1400,7 +1747,10 @@ export async function renderIconToCanvas(
   //  [C] Shadow border (dark outer stroke) — darkens the outer pixel of the squircle.
   //      Strongest on the shadow side. Creates the "raised" depth illusion.
   //
-  {
+  //  Unmasked (square) renders skip the rim — the platform's mask has no edge here.
+  //
+  if (masked) {
+    const rimStart = performance.now();
     const angleRad = (lightAngle * Math.PI) / 180;
     const lx = Math.cos(angleRad);
     const ly = -Math.sin(angleRad);
@@ -1510,15 +1860,17 @@ export async function renderIconToCanvas(
       c.stroke();
       c.restore();
     }
+    endStage('rim', rimStart);
   }
 
   // ── Soft edge feather — erases 1-2px outside squircle to anti-alias the clip ──
   // Uses destination-out on a slightly EXPANDED squircle inverted mask.
   // This removes hard pixel steps at the squircle boundary.
-  {
-    const featherCanvas = document.createElement('canvas');
+  if (masked) {
+    const featherStart = performance.now();
+    const featherCanvas = createCanvas();
     featherCanvas.width = featherCanvas.height = size;
-    const fc = featherCanvas.getContext('2d')!;
+    const fc = getContext2D(featherCanvas);
 
     // Punch a squircle hole inside — everything outside the squircle stays
     fc.fillStyle = '#000000';
@@ -1529,9 +1881,9 @@ export async function renderIconToCanvas(
 
     // Blur the mask so the edge erasure is feathered, not a hard cut.
     const featherPx = Math.max(1.2, size * 0.0015);
-    const blurCanvas = document.createElement('canvas');
+    const blurCanvas = createCanvas();
     blurCanvas.width = blurCanvas.height = size;
-    const bc = blurCanvas.getContext('2d')!;
+    const bc = getContext2D(blurCanvas);
     bc.filter = `blur(${featherPx}px)`;
     bc.drawImage(featherCanvas, 0, 0);
 
@@ -1539,28 +1891,17 @@ export async function renderIconToCanvas(
     c.globalCompositeOperation = 'destination-out';
     c.drawImage(blurCanvas, 0, 0);
     c.restore();
+    endStage('feather', featherStart);
   }
 
   // ── Atomic swap: resize output canvas and copy result in one operation ─────
   // Resizing here (not at the start) prevents a blank frame during async rendering.
   outputCanvas.width = outputCanvas.height = size;
-  const outCtx = outputCanvas.getContext('2d');
-  if (outCtx) outCtx.drawImage(masterCanvas, 0, 0);
-}
+  getContext2D(outputCanvas).drawImage(masterCanvas, 0, 0);
 
-// ─── Export ───────────────────────────────────────────────────────────────────
-
-export async function exportIconPNG(
-  layers: RenderContext['layers'],
-  background: RenderContext['background'],
-  lightAngle: number,
-  mode: AppearanceMode,
-  size = 1024,
-): Promise<string> {
-  const canvas = document.createElement('canvas');
-  canvas.width = canvas.height = size;
-  // Use appearanceMode, not 'mode', to fix the compile error that broke export
-  await renderIconToCanvas(canvas, { layers, background, lightAngle, appearanceMode: mode, size });
-  return canvas.toDataURL('image/png');
+  return endFrame({
+    layerCache: layerCacheStats(),
+    scratchCanvases: { frame: scratch.canvasCount(), shared: scratchPool.size },
+    gpu: _glRenderers.has(size) && !glContextLost(size) ? _glRenderers.get(size)!.renderer.gpuInfo : null,
+  });
 }
-
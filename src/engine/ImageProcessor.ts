@@ -1,3 +1,6 @@
+import { createCanvas, getContext2D } from './canvas';
+import type { RenderCanvas, Context2D } from './canvas';
+
 export async function loadImage(url: string): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
     const img = new Image();
@@ -29,7 +32,7 @@ export async function loadImageToCanvas(
   return canvas;
 }
 
-export function drawSquirclePath(ctx: CanvasRenderingContext2D, x: number, y: number, size: number, n = 5) {
+export function drawSquirclePath(ctx: Context2D, x: number, y: number, size: number, n = 5) {
   const r = size / 2;
   const cx = x + r;
   const cy = y + r;
@@ -72,11 +75,9 @@ export function createBackgroundCanvas(
   config: { type: string; bgType?: 'preset' | 'custom'; stops?: { offset: number; color: string }[]; colors?: [string, string]; color?: string; angle?: number },
   width: number,
   height: number
-): HTMLCanvasElement {
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext('2d')!;
+): RenderCanvas {
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2D(canvas);
 
   if (config.type === 'gradient' && (config.stops || config.colors)) {
     const angle = ((config.angle ?? 90) * Math.PI) / 180;
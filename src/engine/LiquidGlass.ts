@@ -1,13 +1,32 @@
 // ─── WebGL2 Liquid Glass Renderer ────────────────────────────────────────────
 //
 // Multi-pass pipeline:
-//   Pass 1: Horizontal separable Gaussian blur  (bg → FBO_A)
-//   Pass 2: Vertical separable Gaussian blur    (FBO_A → FBO_B)
-//   Pass 3: Glass composite with physical lighting (layer + FBO_B + bg → output)
+//   Pass 1: Background blur pyramid — halve until the blur is small, then a
+//           separable Gaussian at that level (bg → pyramid FBOs)
+//   Pass 2: Content alpha masks, blurred the same way (layer → mask pyramids)
+//   Pass 3: Distance field of the silhouette by jump flooding (layer → SDF FBO),
+//           cached per silhouette
+//   Pass 4: Glass composite with physical lighting, its bevel profile shaped by
+//           the distance field (layer + SDF + blurred bg + bg → glass FBO)
+//   Pass 5: Layer effects — drop shadow, glass, bevel (glass FBO + masks → output)
+//
+// Blurring at a reduced level keeps the Gaussian kernel short, so the cost
+// stays flat as the blur radius grows. The blurred background is reused for
+// as long as the background fed to the glass stays the same.
 
 import VERT_SRC  from './shaders/vertex.vert.glsl';
-import BLUR_SRC  from './shaders/blur.frag.glsl';
+import DOWNSAMPLE_SRC from './shaders/downsample.frag.glsl';
+import BLUR_H_SRC from './shaders/gaussianBlurH.frag.glsl';
+import BLUR_V_SRC from './shaders/gaussianBlurV.frag.glsl';
 import GLASS_SRC from './shaders/liquidGlass.frag.glsl';
+import FX_SRC    from './shaders/layerEffects.frag.glsl';
+import JFA_SEED_SRC from './shaders/jfaSeed.frag.glsl';
+import JFA_STEP_SRC from './shaders/jfaStep.frag.glsl';
+import { getWebGL2Context } from './canvas';
+import type { RenderCanvas } from './canvas';
+import { countCache } from './diagnostics';
+import type { GpuInfo } from './diagnostics';
+import type { GlassOptics } from './glassOptics';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -22,6 +41,34 @@ export interface LiquidGlassParams {
   darkAdjust: number;
   monoAdjust: number;
   aberration: number;        // 0-1
+  optics: GlassOptics;       // refraction / fresnel / glare / tint factors
+  bevelWidth: number;        // px — width of the rounded edge profile
+}
+
+/** Bevel geometry in px — shared with the Canvas 2D bevel passes */
+export interface BevelMetrics {
+  domeBlur: number;
+  rimWidth: number;
+  rimMaskBlur: number;
+  rimBlur: number;
+  innerShadowWidth: number;
+  innerShadowBlur: number;
+  outerBorderWidth: number;
+}
+
+export interface DropShadowParams {
+  color: { r: number; g: number; b: number }; // 0-255
+  alpha: number;                               // 0-1
+  blur: number;                                // px
+  offsetY: number;                             // px
+}
+
+/** Everything drawn around the glass: drop shadow below, bevel on top. */
+export interface LayerEffects {
+  layerColor: { r: number; g: number; b: number }; // rim tint, 0-255
+  bevel: BevelMetrics;
+  shadow: DropShadowParams | null;
+  draft: boolean;
 }
 
 // ─── WebGL2 helpers ──────────────────────────────────────────────────────────
@@ -75,6 +122,19 @@ function makeFBO(gl: WebGL2RenderingContext, tex: WebGLTexture): WebGLFramebuffe
   return fbo;
 }
 
+// Distance field storage: the nearest edge pixel's coordinate per pixel
+function makeSeedTexture(gl: WebGL2RenderingContext, size: number): RenderTarget {
+  const tex = gl.createTexture()!;
+  gl.bindTexture(gl.TEXTURE_2D, tex);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RG16UI, size, size, 0, gl.RG_INTEGER, gl.UNSIGNED_SHORT, null);
+  // Integer textures are never filtered
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return { tex, fbo: makeFBO(gl, tex) };
+}
+
 function uploadSourceTexture(gl: WebGL2RenderingContext, tex: WebGLTexture, source: TexImageSource) {
   gl.bindTexture(gl.TEXTURE_2D, tex);
   gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
@@ -94,12 +154,20 @@ function drawFullscreenQuad(gl: WebGL2RenderingContext, vao: WebGLVertexArrayObj
 
 // Cached uniform locations for a program — avoids gl.getUniformLocation() every frame
 interface UniformCache {
-  // blur program
-  blur_uTex: WebGLUniformLocation | null;
-  blur_uTexelSize: WebGLUniformLocation | null;
-  blur_uRadius: WebGLUniformLocation | null;
-  blur_uHorizontal: WebGLUniformLocation | null;
-  blur_uSaturate: WebGLUniformLocation | null;
+  // downsample program
+  down_uTex: WebGLUniformLocation | null;
+  down_uResolution: WebGLUniformLocation | null;
+  down_uLinearize: WebGLUniformLocation | null;
+  // separable Gaussian programs
+  blurH_uInputTex: WebGLUniformLocation | null;
+  blurH_uResolution: WebGLUniformLocation | null;
+  blurH_uBlurRadius: WebGLUniformLocation | null;
+  blurH_uBlurWeights: WebGLUniformLocation | null;
+  blurV_uInputTex: WebGLUniformLocation | null;
+  blurV_uResolution: WebGLUniformLocation | null;
+  blurV_uBlurRadius: WebGLUniformLocation | null;
+  blurV_uBlurWeights: WebGLUniformLocation | null;
+  blurV_uSaturation: WebGLUniformLocation | null;
   // glass program
   glass_uLayerTex: WebGLUniformLocation | null;
   glass_uBlurredBgTex: WebGLUniformLocation | null;
@@ -108,49 +176,208 @@ interface UniformCache {
   glass_uParams2: WebGLUniformLocation | null;
   glass_uTexelSize: WebGLUniformLocation | null;
   glass_uLightDir: WebGLUniformLocation | null;
+  glass_uSdfTex: WebGLUniformLocation | null;
+  glass_uBevelWidth: WebGLUniformLocation | null;
+  glass_uRefraction: WebGLUniformLocation | null;
+  glass_uFresnel: WebGLUniformLocation | null;
+  glass_uGlare: WebGLUniformLocation | null;
+  glass_uGlareDir: WebGLUniformLocation | null;
+  glass_uTint: WebGLUniformLocation | null;
+  // jump flood programs
+  jfaSeed_uTex: WebGLUniformLocation | null;
+  jfaStep_uSeedTex: WebGLUniformLocation | null;
+  jfaStep_uStep: WebGLUniformLocation | null;
+  // layer effects program
+  fx_uLayerTex: WebGLUniformLocation | null;
+  fx_uGlassTex: WebGLUniformLocation | null;
+  fx_uEdgeMaskTex: WebGLUniformLocation | null;
+  fx_uDomeMaskTex: WebGLUniformLocation | null;
+  fx_uShadowMaskTex: WebGLUniformLocation | null;
+  fx_uSize: WebGLUniformLocation | null;
+  fx_uLightDir: WebGLUniformLocation | null;
+  fx_uLayerColor: WebGLUniformLocation | null;
+  fx_uRim: WebGLUniformLocation | null;
+  fx_uBorderWidth: WebGLUniformLocation | null;
+  fx_uShadowColor: WebGLUniformLocation | null;
+  fx_uShadowOffset: WebGLUniformLocation | null;
+  fx_uDraft: WebGLUniformLocation | null;
+}
+
+interface RenderTarget {
+  tex: WebGLTexture;
+  fbo: WebGLFramebuffer;
+}
+
+// Distance fields kept on the GPU — one per silhouette, least recently used evicted
+const SDF_CACHE_ENTRIES = 6;
+
+// One pyramid level: the level image plus scratch for the horizontal pass
+interface BlurLevel {
+  size: number;
+  tex: WebGLTexture;
+  fbo: WebGLFramebuffer;
+  tmpTex: WebGLTexture;
+  tmpFbo: WebGLFramebuffer;
+}
+
+// Each blurred image keeps its own pyramid: the background must survive the
+// mask blurs of the layers that reuse it
+type BlurChain = 'bg' | 'edge' | 'dome' | 'shadow';
+
+// Halve until sigma fits within this many texels of the level
+const MAX_LEVEL_SIGMA = 8;
+const MAX_LEVELS = 6;
+// Must match MAX_BLUR_RADIUS in gaussianBlurH/V.frag.glsl
+const MAX_BLUR_RADIUS = 128;
+
+/** Normalised one-sided Gaussian weights (index 0 = center tap). */
+function gaussianWeights(sigma: number): { radius: number; weights: Float32Array } {
+  const weights = new Float32Array(MAX_BLUR_RADIUS + 1);
+  if (sigma < 0.3) {
+    weights[0] = 1;
+    return { radius: 0, weights };
+  }
+  const radius = Math.min(MAX_BLUR_RADIUS, Math.ceil(sigma * 3));
+  let sum = 0;
+  for (let i = 0; i <= radius; i++) {
+    weights[i] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    sum += i === 0 ? weights[i] : weights[i] * 2;
+  }
+  for (let i = 0; i <= radius; i++) weights[i] /= sum;
+  return { radius, weights };
 }
 
+/** Thrown by render() while the GPU context is gone — callers fall back to Canvas 2D. */
+export class WebGLContextLostError extends Error {
+  constructor() {
+    super('WebGL2 context lost');
+    this.name = 'WebGLContextLostError';
+  }
+}
+
+/** 'failed' = the context came back but the pipeline could not be rebuilt */
+export type ContextChange = 'lost' | 'restored' | 'failed';
+
 export class LiquidGlassRenderer {
   private gl: WebGL2RenderingContext;
-  private blurProg: WebGLProgram;
-  private glassProg: WebGLProgram;
-  private vao: WebGLVertexArrayObject;
-  private uniforms: UniformCache;
-
-  // Ping-pong FBOs for 2-pass blur
-  private texA: WebGLTexture;
-  private texB: WebGLTexture;
-  private fboA: WebGLFramebuffer;
-  private fboB: WebGLFramebuffer;
+  private canvas: RenderCanvas;
+  private onContextChange?: (change: ContextChange, error?: unknown) => void;
+
+  // Everything below lives in the context — (re)built by init()
+  private downProg!: WebGLProgram;
+  private blurHProg!: WebGLProgram;
+  private blurVProg!: WebGLProgram;
+  private glassProg!: WebGLProgram;
+  private fxProg!: WebGLProgram;
+  private jfaSeedProg!: WebGLProgram;
+  private jfaStepProg!: WebGLProgram;
+  private vao!: WebGLVertexArrayObject;
+  private uniforms!: UniformCache;
+
+  // Glass pass output, read by the layer effects pass
+  private glassTex!: WebGLTexture;
+  private glassFbo!: WebGLFramebuffer;
 
   // Source textures
-  private layerTex: WebGLTexture;
-  private origBgTex: WebGLTexture;
+  private layerTex!: WebGLTexture;
+  private origBgTex!: WebGLTexture;
+
+  private pyramids = new Map<BlurChain, BlurLevel[]>();
+  private blurredBgTex: WebGLTexture | null = null;
+  private hdr = false;
+
+  // Distance fields by silhouette key (Map order = recency, oldest first),
+  // plus the ping-pong partner the jump flood alternates with
+  private sdfCache = new Map<string, RenderTarget>();
+  private sdfScratch: RenderTarget | null = null;
 
   private size: number;
   private _lastBgKey: string = '';
 
-  constructor(canvas: HTMLCanvasElement) {
-    const gl = canvas.getContext('webgl2', {
+  constructor(canvas: RenderCanvas, onContextChange?: (change: ContextChange, error?: unknown) => void) {
+    const gl = getWebGL2Context(canvas, {
       premultipliedAlpha: false,
       alpha: true,
       preserveDrawingBuffer: true,
       antialias: false,
-    }) as WebGL2RenderingContext | null;
+    });
     if (!gl) throw new Error('WebGL2 not supported');
     this.gl = gl;
+    this.canvas = canvas;
     this.size = canvas.width;
+    this.onContextChange = onContextChange;
+
+    // Both canvas kinds fire these; preventDefault() on loss allows a restore
+    (canvas as EventTarget).addEventListener('webglcontextlost', this.handleContextLost);
+    (canvas as EventTarget).addEventListener('webglcontextrestored', this.handleContextRestored);
+
+    this.init();
+  }
+
+  /** True while the browser has taken the GPU context away. */
+  get contextLost(): boolean {
+    return this.gl.isContextLost();
+  }
+
+  /** Context limits and extensions, for the diagnostics report. */
+  get gpuInfo(): GpuInfo {
+    const { gl } = this;
+    return {
+      version: String(gl.getParameter(gl.VERSION)),
+      renderer: String(gl.getParameter(gl.RENDERER)),
+      maxTextureSize: Number(gl.getParameter(gl.MAX_TEXTURE_SIZE)),
+      hdr: this.hdr,
+      extensions: gl.getSupportedExtensions() ?? [],
+    };
+  }
 
-    this.blurProg  = createProgram(gl, BLUR_SRC);
+  private handleContextLost = (e: Event) => {
+    e.preventDefault();
+    this.onContextChange?.('lost');
+  };
+
+  private handleContextRestored = () => {
+    try {
+      this.init();
+      this.onContextChange?.('restored');
+    } catch (err) {
+      this.onContextChange?.('failed', err);
+    }
+  };
+
+  // ── Programs, buffers and render targets ──────────────────────────────────
+  // Objects from a lost context are invalid and need no deletion — a restore
+  // simply builds everything again. Sources are re-uploaded by the next render.
+  private init() {
+    const { gl } = this;
+    this.pyramids.clear();
+    this.blurredBgTex = null;
+    this._lastBgKey = '';
+    this.sdfCache.clear();
+    this.sdfScratch = null;
+
+    this.downProg  = createProgram(gl, DOWNSAMPLE_SRC);
+    this.blurHProg = createProgram(gl, BLUR_H_SRC);
+    this.blurVProg = createProgram(gl, BLUR_V_SRC);
     this.glassProg = createProgram(gl, GLASS_SRC);
+    this.fxProg    = createProgram(gl, FX_SRC);
+    this.jfaSeedProg = createProgram(gl, JFA_SEED_SRC);
+    this.jfaStepProg = createProgram(gl, JFA_STEP_SRC);
 
     // Cache all uniform locations once — avoids redundant driver lookups per frame
     this.uniforms = {
-      blur_uTex:        gl.getUniformLocation(this.blurProg,  'uTex'),
-      blur_uTexelSize:  gl.getUniformLocation(this.blurProg,  'uTexelSize'),
-      blur_uRadius:     gl.getUniformLocation(this.blurProg,  'uRadius'),
-      blur_uHorizontal: gl.getUniformLocation(this.blurProg,  'uHorizontal'),
-      blur_uSaturate:   gl.getUniformLocation(this.blurProg,  'uSaturate'),
+      down_uTex:        gl.getUniformLocation(this.downProg,  'uTex'),
+      down_uResolution: gl.getUniformLocation(this.downProg,  'uResolution'),
+      down_uLinearize:  gl.getUniformLocation(this.downProg,  'uLinearize'),
+      blurH_uInputTex:    gl.getUniformLocation(this.blurHProg, 'u_inputTex'),
+      blurH_uResolution:  gl.getUniformLocation(this.blurHProg, 'u_resolution'),
+      blurH_uBlurRadius:  gl.getUniformLocation(this.blurHProg, 'u_blurRadius'),
+      blurH_uBlurWeights: gl.getUniformLocation(this.blurHProg, 'u_blurWeights'),
+      blurV_uInputTex:    gl.getUniformLocation(this.blurVProg, 'u_inputTex'),
+      blurV_uResolution:  gl.getUniformLocation(this.blurVProg, 'u_resolution'),
+      blurV_uBlurRadius:  gl.getUniformLocation(this.blurVProg, 'u_blurRadius'),
+      blurV_uBlurWeights: gl.getUniformLocation(this.blurVProg, 'u_blurWeights'),
+      blurV_uSaturation:  gl.getUniformLocation(this.blurVProg, 'u_saturation'),
       glass_uLayerTex:     gl.getUniformLocation(this.glassProg, 'uLayerTex'),
       glass_uBlurredBgTex: gl.getUniformLocation(this.glassProg, 'uBlurredBgTex'),
       glass_uOrigBgTex:    gl.getUniformLocation(this.glassProg, 'uOrigBgTex'),
@@ -158,6 +385,29 @@ export class LiquidGlassRenderer {
       glass_uParams2:      gl.getUniformLocation(this.glassProg, 'uParams2'),
       glass_uTexelSize:    gl.getUniformLocation(this.glassProg, 'uTexelSize'),
       glass_uLightDir:     gl.getUniformLocation(this.glassProg, 'uLightDir'),
+      glass_uSdfTex:       gl.getUniformLocation(this.glassProg, 'uSdfTex'),
+      glass_uBevelWidth:   gl.getUniformLocation(this.glassProg, 'uBevelWidth'),
+      glass_uRefraction:   gl.getUniformLocation(this.glassProg, 'uRefraction'),
+      glass_uFresnel:      gl.getUniformLocation(this.glassProg, 'uFresnel'),
+      glass_uGlare:        gl.getUniformLocation(this.glassProg, 'uGlare'),
+      glass_uGlareDir:     gl.getUniformLocation(this.glassProg, 'uGlareDir'),
+      glass_uTint:         gl.getUniformLocation(this.glassProg, 'uTint'),
+      jfaSeed_uTex:     gl.getUniformLocation(this.jfaSeedProg, 'uTex'),
+      jfaStep_uSeedTex: gl.getUniformLocation(this.jfaStepProg, 'uSeedTex'),
+      jfaStep_uStep:    gl.getUniformLocation(this.jfaStepProg, 'uStep'),
+      fx_uLayerTex:      gl.getUniformLocation(this.fxProg, 'uLayerTex'),
+      fx_uGlassTex:      gl.getUniformLocation(this.fxProg, 'uGlassTex'),
+      fx_uEdgeMaskTex:   gl.getUniformLocation(this.fxProg, 'uEdgeMaskTex'),
+      fx_uDomeMaskTex:   gl.getUniformLocation(this.fxProg, 'uDomeMaskTex'),
+      fx_uShadowMaskTex: gl.getUniformLocation(this.fxProg, 'uShadowMaskTex'),
+      fx_uSize:          gl.getUniformLocation(this.fxProg, 'uSize'),
+      fx_uLightDir:      gl.getUniformLocation(this.fxProg, 'uLightDir'),
+      fx_uLayerColor:    gl.getUniformLocation(this.fxProg, 'uLayerColor'),
+      fx_uRim:           gl.getUniformLocation(this.fxProg, 'uRim'),
+      fx_uBorderWidth:   gl.getUniformLocation(this.fxProg, 'uBorderWidth'),
+      fx_uShadowColor:   gl.getUniformLocation(this.fxProg, 'uShadowColor'),
+      fx_uShadowOffset:  gl.getUniformLocation(this.fxProg, 'uShadowOffset'),
+      fx_uDraft:         gl.getUniformLocation(this.fxProg, 'uDraft'),
     };
 
     // VAO + buffers (fullscreen quad, shared by all passes)
@@ -185,63 +435,191 @@ export class LiquidGlassRenderer {
     const sz = this.size;
 
     // HDR: check if rendering to float textures is supported (EXT_color_buffer_float)
-    const hdrSupported = !!gl.getExtension('EXT_color_buffer_float');
+    this.hdr = !!gl.getExtension('EXT_color_buffer_float');
 
-    this.texA      = makeTexture(gl, sz, sz, hdrSupported);
-    this.texB      = makeTexture(gl, sz, sz, hdrSupported);
-    this.fboA      = makeFBO(gl, this.texA);
-    this.fboB      = makeFBO(gl, this.texB);
+    this.glassTex  = makeTexture(gl, sz, sz, this.hdr);
+    this.glassFbo  = makeFBO(gl, this.glassTex);
     this.layerTex  = gl.createTexture()!;
     this.origBgTex = gl.createTexture()!;
 
     gl.enable(gl.BLEND);
     gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+
+    // Lost again mid-build — this attempt's objects are already invalid
+    if (gl.isContextLost()) throw new WebGLContextLostError();
   }
 
-  // ── 2-pass Gaussian blur on bgSource → texB ─────────────────────────────────
-  private blurBackground(bgSource: TexImageSource, radius: number, saturate: boolean, bgKey: string) {
-    if (bgKey && bgKey === this._lastBgKey) return;  // skip if bg unchanged
-    this._lastBgKey = bgKey;
+  // ── Distance field (jump flood) ───────────────────────────────────────────
+  /**
+   * Nearest-edge texture for the silhouette in layerTex: each pixel holds the
+   * coordinate of the closest edge pixel, so the glass shader gets both the
+   * distance and the direction to the edge. Cached under `key`; blending
+   * must be off.
+   */
+  private distanceField(key: string): WebGLTexture {
     const { gl } = this;
-    const sz = this.size;
-    const texelSize = 1.0 / sz;
-
-    // Upload original bg to origBgTex (used in glass pass for sharp background)
-    uploadSourceTexture(gl, this.origBgTex, bgSource);
-
     const u = this.uniforms;
+    const cached = this.sdfCache.get(key);
+    countCache('sdf', !!cached);
+    if (cached) {
+      this.sdfCache.delete(key);
+      this.sdfCache.set(key, cached);
+      return cached.tex;
+    }
 
-    // Horizontal pass: origBgTex → fboA
-    gl.bindFramebuffer(gl.FRAMEBUFFER, this.fboA);
-    gl.viewport(0, 0, sz, sz);
-    gl.clear(gl.COLOR_BUFFER_BIT);
-    gl.useProgram(this.blurProg);
+    const sz = this.size;
+    let entry: RenderTarget;
+    if (this.sdfCache.size >= SDF_CACHE_ENTRIES) {
+      // Reuse the least recently used field's storage
+      const [oldKey, old] = this.sdfCache.entries().next().value!;
+      this.sdfCache.delete(oldKey);
+      entry = old;
+    } else {
+      entry = makeSeedTexture(gl, sz);
+    }
+    this.sdfScratch ??= makeSeedTexture(gl, sz);
+
+    // Steps halve from the largest power of two below the size down to 1.
+    // Passes alternate between the two targets; start so the last lands in `entry`.
+    const steps: number[] = [];
+    for (let step = 2 ** Math.floor(Math.log2(Math.max(1, sz - 1))); step >= 1; step /= 2) steps.push(step);
+    let [write, read] = steps.length % 2 === 0 ? [entry, this.sdfScratch] : [this.sdfScratch, entry];
 
+    gl.viewport(0, 0, sz, sz);
     gl.activeTexture(gl.TEXTURE0);
-    gl.bindTexture(gl.TEXTURE_2D, this.origBgTex);
-    gl.uniform1i(u.blur_uTex, 0);
-    gl.uniform2f(u.blur_uTexelSize, texelSize, texelSize);
-    gl.uniform1f(u.blur_uRadius, radius);
-    gl.uniform1i(u.blur_uHorizontal, 1);
-    gl.uniform1i(u.blur_uSaturate, saturate ? 1 : 0);
+
+    gl.useProgram(this.jfaSeedProg);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, write.fbo);
+    gl.bindTexture(gl.TEXTURE_2D, this.layerTex);
+    gl.uniform1i(u.jfaSeed_uTex, 0);
     drawFullscreenQuad(gl, this.vao);
 
-    // Vertical pass: texA → fboB
-    gl.bindFramebuffer(gl.FRAMEBUFFER, this.fboB);
-    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.useProgram(this.jfaStepProg);
+    gl.uniform1i(u.jfaStep_uSeedTex, 0);
+    for (const step of steps) {
+      [write, read] = [read, write];
+      gl.bindFramebuffer(gl.FRAMEBUFFER, write.fbo);
+      gl.bindTexture(gl.TEXTURE_2D, read.tex);
+      gl.uniform1i(u.jfaStep_uStep, step);
+      drawFullscreenQuad(gl, this.vao);
+    }
+
+    this.sdfCache.set(key, entry);
+    return entry.tex;
+  }
+
+  // ── Blur pyramid ──────────────────────────────────────────────────────────
+  private pyramidLevel(chain: BlurChain, level: number): BlurLevel {
+    const { gl } = this;
+    const levels = this.pyramids.get(chain) ?? [];
+    this.pyramids.set(chain, levels);
+    if (!levels[level]) {
+      const size = Math.max(1, Math.ceil(this.size / 2 ** level));
+      const tex = makeTexture(gl, size, size, this.hdr);
+      const tmpTex = makeTexture(gl, size, size, this.hdr);
+      levels[level] = { size, tex, fbo: makeFBO(gl, tex), tmpTex, tmpFbo: makeFBO(gl, tmpTex) };
+    }
+    return levels[level];
+  }
 
+  /**
+   * Gaussian-blurs `source` (full size) by `sigma` px. The source is halved
+   * until sigma spans at most MAX_LEVEL_SIGMA texels, blurred there, and the
+   * level texture is returned — LINEAR sampling scales it back up.
+   * Blending must be off.
+   */
+  private blurInto(
+    chain: BlurChain,
+    source: WebGLTexture,
+    sigma: number,
+    linearize: boolean,
+    saturation = 1,
+  ): WebGLTexture {
+    const { gl } = this;
+    const u = this.uniforms;
+    const top = sigma <= MAX_LEVEL_SIGMA
+      ? 0
+      : Math.min(MAX_LEVELS, Math.ceil(Math.log2(sigma / MAX_LEVEL_SIGMA)));
+
+    // Downsample chain (level 0 is a plain copy — the source is never blurred in place)
+    gl.useProgram(this.downProg);
     gl.activeTexture(gl.TEXTURE0);
-    gl.bindTexture(gl.TEXTURE_2D, this.texA);
-    gl.uniform1f(u.blur_uRadius, radius);
-    gl.uniform1i(u.blur_uHorizontal, 0);
-    gl.uniform1i(u.blur_uSaturate, saturate ? 1 : 0);
+    gl.uniform1i(u.down_uTex, 0);
+    let input = source;
+    for (let level = top === 0 ? 0 : 1; level <= top; level++) {
+      const target = this.pyramidLevel(chain, level);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, target.fbo);
+      gl.viewport(0, 0, target.size, target.size);
+      gl.bindTexture(gl.TEXTURE_2D, input);
+      gl.uniform2f(u.down_uResolution, target.size, target.size);
+      gl.uniform1i(u.down_uLinearize, linearize ? 1 : 0);
+      drawFullscreenQuad(gl, this.vao);
+      input = target.tex;
+      linearize = false;
+    }
+
+    const target = this.pyramidLevel(chain, top);
+    const { radius, weights } = gaussianWeights(sigma / 2 ** top);
+
+    // Horizontal pass: level → scratch
+    gl.useProgram(this.blurHProg);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.tmpFbo);
+    gl.bindTexture(gl.TEXTURE_2D, target.tex);
+    gl.uniform1i(u.blurH_uInputTex, 0);
+    gl.uniform2f(u.blurH_uResolution, target.size, target.size);
+    gl.uniform1i(u.blurH_uBlurRadius, radius);
+    gl.uniform1fv(u.blurH_uBlurWeights, weights);
     drawFullscreenQuad(gl, this.vao);
 
-    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    // Vertical pass: scratch → level
+    gl.useProgram(this.blurVProg);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.fbo);
+    gl.bindTexture(gl.TEXTURE_2D, target.tmpTex);
+    gl.uniform1i(u.blurV_uInputTex, 0);
+    gl.uniform2f(u.blurV_uResolution, target.size, target.size);
+    gl.uniform1i(u.blurV_uBlurRadius, radius);
+    gl.uniform1fv(u.blurV_uBlurWeights, weights);
+    gl.uniform1f(u.blurV_uSaturation, saturation);
+    drawFullscreenQuad(gl, this.vao);
+
+    return target.tex;
   }
 
-  render(layerSource: TexImageSource, bgSource: TexImageSource, params: LiquidGlassParams, bgKey = '') {
+  // ── Background blur (linear light) → bg pyramid ───────────────────────────
+  private blurBackground(bgSource: TexImageSource, radius: number, saturate: boolean, bgKey: string) {
+    // Layers fed the same background share one blur
+    const reuse = !!bgKey && bgKey === this._lastBgKey && !!this.blurredBgTex;
+    countCache('glassBlur', reuse);
+    if (reuse) return;
+    this._lastBgKey = bgKey;
     const { gl } = this;
+
+    // Upload original bg to origBgTex (used in glass pass for sharp background)
+    uploadSourceTexture(gl, this.origBgTex, bgSource);
+
+    // Glass picks up vivid background colour in dark mode — stronger blur
+    // desaturates more, so the boost grows with the radius
+    const boost = 1.0 + Math.min(Math.max(radius / 8, 0), 1) * 0.5;
+    const saturation = saturate ? boost * boost : 1;
+    // `radius` is the blur's reach; the Gaussian sigma is half of it
+    this.blurredBgTex = this.blurInto('bg', this.origBgTex, radius / 2, true, saturation);
+  }
+
+  /**
+   * Renders a finished glass layer onto the canvas: drop shadow, glass and
+   * bevel, composited on the GPU. `sdfKey` identifies the layer's silhouette
+   * so its distance field can be reused; without one it is rebuilt.
+   */
+  render(
+    layerSource: TexImageSource,
+    bgSource: TexImageSource,
+    params: LiquidGlassParams,
+    effects: LayerEffects,
+    bgKey = '',
+    sdfKey = '',
+  ) {
+    const { gl } = this;
+    if (gl.isContextLost()) throw new WebGLContextLostError();
     const sz = this.size;
 
     // Compute blur radius in texel units (0 = no blur)
@@ -249,13 +627,24 @@ export class LiquidGlassRenderer {
 
     // Re-blur bg only if bgKey changed — skips redundant GPU upload+blur for same background
     const effectiveBgKey = `${bgKey}:${blurRadius.toFixed(2)}:${params.mode}`;
+    // Pyramid passes are written as-is, no blending
+    gl.disable(gl.BLEND);
     this.blurBackground(bgSource, blurRadius, params.mode === 1, effectiveBgKey);
 
     // Upload layer texture
     uploadSourceTexture(gl, this.layerTex, layerSource);
 
-    // ── Glass composite pass: render to screen ─────────────────────────────
-    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    // ── Content masks for bevel and shadow ─────────────────────────────────
+    const { bevel, shadow } = effects;
+    const edgeMask = this.blurInto('edge', this.layerTex, bevel.rimMaskBlur, false);
+    const domeMask = this.blurInto('dome', this.layerTex, bevel.domeBlur, false);
+    const shadowMask = shadow ? this.blurInto('shadow', this.layerTex, shadow.blur, false) : null;
+    // Unkeyed silhouettes get a throwaway entry
+    const sdfTex = this.distanceField(sdfKey || `~${performance.now()}`);
+    gl.enable(gl.BLEND);
+
+    // ── Glass composite pass: render to the glass FBO ──────────────────────
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.glassFbo);
     gl.viewport(0, 0, sz, sz);
     gl.clearColor(0, 0, 0, 0);
     gl.clear(gl.COLOR_BUFFER_BIT);
@@ -270,31 +659,109 @@ export class LiquidGlassRenderer {
     gl.uniform1i(u.glass_uLayerTex, 0);
 
     gl.activeTexture(gl.TEXTURE1);
-    gl.bindTexture(gl.TEXTURE_2D, this.texB);
+    gl.bindTexture(gl.TEXTURE_2D, this.blurredBgTex);
     gl.uniform1i(u.glass_uBlurredBgTex, 1);
 
     gl.activeTexture(gl.TEXTURE2);
     gl.bindTexture(gl.TEXTURE_2D, this.origBgTex);
     gl.uniform1i(u.glass_uOrigBgTex, 2);
 
+    gl.activeTexture(gl.TEXTURE3);
+    gl.bindTexture(gl.TEXTURE_2D, sdfTex);
+    gl.uniform1i(u.glass_uSdfTex, 3);
+
     gl.uniform4f(u.glass_uParams1, params.blur, params.translucency, params.specular ? params.specularIntensity : 0.0, params.opacity);
     gl.uniform4f(u.glass_uParams2, params.darkAdjust, params.monoAdjust, params.aberration, params.mode);
     gl.uniform2f(u.glass_uTexelSize, texelSize, texelSize);
     gl.uniform2f(u.glass_uLightDir, Math.cos(angleRad), Math.sin(angleRad));
 
+    const { optics } = params;
+    const glareRad = ((params.lightAngle + optics.glareAngle) * Math.PI) / 180;
+    gl.uniform1f(u.glass_uBevelWidth, Math.max(1, params.bevelWidth));
+    gl.uniform1f(u.glass_uRefraction, optics.refraction);
+    gl.uniform3f(u.glass_uFresnel, optics.fresnel, optics.fresnelFalloff, optics.fresnelHardness);
+    gl.uniform3f(u.glass_uGlare, optics.glare, optics.glareSpread, optics.glareFocus);
+    gl.uniform2f(u.glass_uGlareDir, Math.cos(glareRad), Math.sin(glareRad));
+    gl.uniform4f(u.glass_uTint, optics.tint.r / 255, optics.tint.g / 255, optics.tint.b / 255, optics.tint.a);
+
+    drawFullscreenQuad(gl, this.vao);
+
+    // ── Layer effects pass: render to screen ───────────────────────────────
+    // The shader composites everything itself — its output is written as-is
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.disable(gl.BLEND);
+    gl.useProgram(this.fxProg);
+
+    const textures: [WebGLUniformLocation | null, WebGLTexture][] = [
+      [u.fx_uLayerTex, this.layerTex],
+      [u.fx_uGlassTex, this.glassTex],
+      [u.fx_uEdgeMaskTex, edgeMask],
+      [u.fx_uDomeMaskTex, domeMask],
+      // Unused without a shadow — any valid texture will do
+      [u.fx_uShadowMaskTex, shadowMask ?? domeMask],
+    ];
+    textures.forEach(([loc, tex], unit) => {
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      gl.bindTexture(gl.TEXTURE_2D, tex);
+      gl.uniform1i(loc, unit);
+    });
+
+    const { layerColor: lc } = effects;
+    gl.uniform1f(u.fx_uSize, sz);
+    gl.uniform2f(u.fx_uLightDir, Math.cos(angleRad), -Math.sin(angleRad));
+    gl.uniform3f(u.fx_uLayerColor, lc.r / 255, lc.g / 255, lc.b / 255);
+    gl.uniform4f(u.fx_uRim, bevel.rimWidth, bevel.rimBlur, bevel.innerShadowWidth, bevel.innerShadowBlur);
+    gl.uniform1f(u.fx_uBorderWidth, bevel.outerBorderWidth);
+    if (shadow) {
+      gl.uniform4f(u.fx_uShadowColor, shadow.color.r / 255, shadow.color.g / 255, shadow.color.b / 255, shadow.alpha);
+      gl.uniform1f(u.fx_uShadowOffset, shadow.offsetY);
+    } else {
+      gl.uniform4f(u.fx_uShadowColor, 0, 0, 0, 0);
+      gl.uniform1f(u.fx_uShadowOffset, 0);
+    }
+    gl.uniform1i(u.fx_uDraft, effects.draft ? 1 : 0);
+
     drawFullscreenQuad(gl, this.vao);
+    gl.enable(gl.BLEND);
+
+    // Lost mid-frame: the output is blank, not a finished layer
+    if (gl.isContextLost()) throw new WebGLContextLostError();
   }
 
   dispose() {
     const { gl } = this;
+    (this.canvas as EventTarget).removeEventListener('webglcontextlost', this.handleContextLost);
+    (this.canvas as EventTarget).removeEventListener('webglcontextrestored', this.handleContextRestored);
+    if (gl.isContextLost()) return;
     gl.deleteTexture(this.layerTex);
     gl.deleteTexture(this.origBgTex);
-    gl.deleteTexture(this.texA);
-    gl.deleteTexture(this.texB);
-    gl.deleteFramebuffer(this.fboA);
-    gl.deleteFramebuffer(this.fboB);
-    gl.deleteProgram(this.blurProg);
+    gl.deleteTexture(this.glassTex);
+    gl.deleteFramebuffer(this.glassFbo);
+    for (const levels of this.pyramids.values()) {
+      for (const level of levels) {
+        if (!level) continue;
+        gl.deleteTexture(level.tex);
+        gl.deleteTexture(level.tmpTex);
+        gl.deleteFramebuffer(level.fbo);
+        gl.deleteFramebuffer(level.tmpFbo);
+      }
+    }
+    this.pyramids.clear();
+    for (const target of [...this.sdfCache.values(), this.sdfScratch]) {
+      if (!target) continue;
+      gl.deleteTexture(target.tex);
+      gl.deleteFramebuffer(target.fbo);
+    }
+    this.sdfCache.clear();
+    this.sdfScratch = null;
+    gl.deleteProgram(this.downProg);
+    gl.deleteProgram(this.blurHProg);
+    gl.deleteProgram(this.blurVProg);
     gl.deleteProgram(this.glassProg);
+    gl.deleteProgram(this.fxProg);
+    gl.deleteProgram(this.jfaSeedProg);
+    gl.deleteProgram(this.jfaStepProg);
     gl.deleteVertexArray(this.vao);
   }
 }
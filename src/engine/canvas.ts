@@ -0,0 +1,39 @@
+// ─── Canvas factory ───────────────────────────────────────────────────────────
+// The renderer runs on the main thread and inside render.worker.ts, which has
+// no DOM. Every canvas it uses comes from here: an OffscreenCanvas in the
+// worker, a detached <canvas> element otherwise.
+
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+/** A decoded layer image — an element on the main thread, a bitmap in the worker */
+export type RenderImage = HTMLImageElement | ImageBitmap;
+
+const hasDocument = typeof document !== 'undefined';
+
+export function createCanvas(width = 0, height = width): RenderCanvas {
+  if (!hasDocument) return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function isOffscreen(canvas: RenderCanvas): canvas is OffscreenCanvas {
+  return typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas;
+}
+
+export function getContext2D(canvas: RenderCanvas, options?: CanvasRenderingContext2DSettings): Context2D {
+  const ctx = isOffscreen(canvas) ? canvas.getContext('2d', options) : canvas.getContext('2d', options);
+  if (!ctx) throw new Error('Unable to create 2D context.');
+  return ctx;
+}
+
+export function getWebGL2Context(canvas: RenderCanvas, options?: WebGLContextAttributes): WebGL2RenderingContext | null {
+  return isOffscreen(canvas) ? canvas.getContext('webgl2', options) : canvas.getContext('webgl2', options);
+}
+
+export function imageSize(image: RenderImage): { width: number; height: number } {
+  return 'naturalWidth' in image
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+}
@@ -0,0 +1,180 @@
+import type { RenderQuality } from '../types/index';
+
+// ─── Render diagnostics ───────────────────────────────────────────────────────
+// Timing and cache counters for the diagnostics overlay. Renders are
+// serialized (see renderIconToCanvas), so one module-level recorder is enough:
+// a render that asks for diagnostics opens a frame, the renderer reports
+// stages and cache lookups into it, and the finished FrameReport is returned
+// with the render.
+//
+// Cache lookups are counted for the whole session as well, whether or not a
+// frame is being recorded.
+
+/** Timed stages — per layer, except the squircle rim and feather (whole icon). */
+export type RenderStage = 'contentBuild' | 'shadow' | 'gpuGlass' | 'bevel' | 'rim' | 'feather';
+
+export const RENDER_STAGES: { value: RenderStage; label: string }[] = [
+  { value: 'contentBuild', label: 'Content build' },
+  { value: 'shadow',       label: 'Shadow'        },
+  { value: 'gpuGlass',     label: 'GPU glass'     },
+  { value: 'bevel',        label: 'Bevel'         },
+  { value: 'rim',          label: 'Rim'           },
+  { value: 'feather',      label: 'Feather'       },
+];
+
+export type CacheName = 'layer' | 'background' | 'shadow' | 'tint' | 'image' | 'glassBlur' | 'sdf';
+
+export const CACHE_NAMES: { value: CacheName; label: string }[] = [
+  { value: 'layer',      label: 'Layer output'    },
+  { value: 'background', label: 'Background'      },
+  { value: 'shadow',     label: 'Drop shadow'     },
+  { value: 'tint',       label: 'Layer tint'      },
+  { value: 'image',      label: 'Image'           },
+  { value: 'glassBlur',  label: 'Glass blur (GPU)' },
+  { value: 'sdf',        label: 'Distance field'  },
+];
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+/** How a layer's output was produced. */
+export type LayerPath = 'cache' | 'plain' | 'webgl' | 'canvas2d';
+
+export interface LayerTiming {
+  id: string;
+  name: string;
+  path: LayerPath;
+  /** Wall time for the layer, ms */
+  total: number;
+  stages: Partial<Record<RenderStage, number>>;
+}
+
+export interface GpuInfo {
+  version: string;
+  renderer: string;
+  maxTextureSize: number;
+  /** EXT_color_buffer_float — float render targets for the glass pass */
+  hdr: boolean;
+  extensions: string[];
+}
+
+export interface FrameReport {
+  /** ISO time the frame finished */
+  timestamp: string;
+  size: number;
+  quality: RenderQuality;
+  /** Wall time for the frame, ms */
+  total: number;
+  /** Stage times summed over the frame, ms */
+  stages: Record<RenderStage, number>;
+  layers: LayerTiming[];
+  caches: {
+    frame: Record<CacheName, CacheStats>;
+    session: Record<CacheName, CacheStats>;
+  };
+  layerCache: { entries: number; bytes: number; budgetBytes: number };
+  scratchCanvases: { frame: number; shared: number };
+  /** null without a WebGL renderer, or while its context is lost */
+  gpu: GpuInfo | null;
+}
+
+interface FrameRecorder {
+  start: number;
+  size: number;
+  quality: RenderQuality;
+  stages: Record<RenderStage, number>;
+  layers: LayerTiming[];
+  layer: (LayerTiming & { start: number }) | null;
+  caches: Record<CacheName, CacheStats>;
+}
+
+function emptyStages(): Record<RenderStage, number> {
+  return { contentBuild: 0, shadow: 0, gpuGlass: 0, bevel: 0, rim: 0, feather: 0 };
+}
+
+function emptyCaches(): Record<CacheName, CacheStats> {
+  return Object.fromEntries(CACHE_NAMES.map(({ value }) => [value, { hits: 0, misses: 0 }])) as Record<CacheName, CacheStats>;
+}
+
+const sessionCaches = emptyCaches();
+let frame: FrameRecorder | null = null;
+
+/** Starts recording a frame. Any frame left open by an aborted render is dropped. */
+export function beginFrame(size: number, quality: RenderQuality) {
+  frame = {
+    start: performance.now(),
+    size,
+    quality,
+    stages: emptyStages(),
+    layers: [],
+    layer: null,
+    caches: emptyCaches(),
+  };
+}
+
+/** Discards the open frame without a report. */
+export function abandonFrame() {
+  frame = null;
+}
+
+export function beginLayer(id: string, name: string) {
+  if (!frame) return;
+  frame.layer = { id, name, path: 'cache', total: 0, stages: {}, start: performance.now() };
+}
+
+export function setLayerPath(path: LayerPath) {
+  if (frame?.layer) frame.layer.path = path;
+}
+
+export function endLayer() {
+  if (!frame?.layer) return;
+  const { start, ...timing } = frame.layer;
+  timing.total = performance.now() - start;
+  frame.layers.push(timing);
+  frame.layer = null;
+}
+
+/**
+ * Adds the time since `start` (a performance.now() reading) to a stage — of
+ * the current layer when one is open, and to the frame totals.
+ */
+export function endStage(stage: RenderStage, start: number) {
+  if (!frame) return;
+  const ms = performance.now() - start;
+  frame.stages[stage] += ms;
+  if (frame.layer) frame.layer.stages[stage] = (frame.layer.stages[stage] ?? 0) + ms;
+}
+
+export function countCache(name: CacheName, hit: boolean) {
+  const field = hit ? 'hits' : 'misses';
+  sessionCaches[name][field]++;
+  if (frame) frame.caches[name][field]++;
+}
+
+/** Closes the open frame and returns its report (null if none was open). */
+export function endFrame(extra: Pick<FrameReport, 'layerCache' | 'scratchCanvases' | 'gpu'>): FrameReport | null {
+  if (!frame) return null;
+  const report: FrameReport = {
+    timestamp: new Date().toISOString(),
+    size: frame.size,
+    quality: frame.quality,
+    total: performance.now() - frame.start,
+    stages: frame.stages,
+    layers: frame.layers,
+    caches: {
+      frame: frame.caches,
+      session: structuredClone(sessionCaches),
+    },
+    ...extra,
+  };
+  frame = null;
+  return report;
+}
+
+/** Share of lookups that hit, 0-1 (null before the first lookup). */
+export function hitRate({ hits, misses }: CacheStats): number | null {
+  const total = hits + misses;
+  return total > 0 ? hits / total : null;
+}
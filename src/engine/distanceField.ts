@@ -0,0 +1,89 @@
+import { countCache } from './diagnostics';
+
+// ─── Distance field (CPU) ─────────────────────────────────────────────────────
+// Exact Euclidean distance from every pixel inside a layer's silhouette
+// (alpha ≥ 0.5) to the nearest pixel outside it — 0 outside. The Canvas 2D
+// glass path derives its bevel profile from this; the WebGL path builds the
+// same field on the GPU with a jump flood (LiquidGlass.ts).
+//
+// Felzenszwalb & Huttenlocher's separable transform: a 1D squared-distance
+// pass over every column, then over every row, linear in the pixel count.
+//
+// Fields are cached by silhouette key — moving or resizing a layer changes the
+// key, editing its glass settings or fill does not.
+
+const SDF_CACHE_ENTRIES = 3;
+const INF = 1e20;
+
+// Map iteration order doubles as recency order: oldest first
+const cache = new Map<string, Float32Array>();
+
+/** 1D squared distance transform of `f` (length n) into `d`. */
+function transform1D(f: Float64Array, n: number, d: Float64Array, v: Int32Array, z: Float64Array) {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    const dq = q - v[k];
+    d[q] = dq * dq + f[v[k]];
+  }
+}
+
+/**
+ * Distance in px to the silhouette edge for each pixel of an RGBA buffer
+ * (`size` × `size`), 0 outside the silhouette.
+ */
+export function computeDistanceField(rgba: Uint8ClampedArray, size: number): Float32Array {
+  const grid = new Float64Array(size * size);
+  for (let i = 0; i < grid.length; i++) grid[i] = rgba[i * 4 + 3] >= 128 ? INF : 0;
+
+  const f = new Float64Array(size);
+  const d = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+
+  // Columns
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) f[y] = grid[y * size + x];
+    transform1D(f, size, d, v, z);
+    for (let y = 0; y < size; y++) grid[y * size + x] = d[y];
+  }
+  // Rows
+  const out = new Float32Array(size * size);
+  for (let y = 0; y < size; y++) {
+    const row = y * size;
+    for (let x = 0; x < size; x++) f[x] = grid[row + x];
+    transform1D(f, size, d, v, z);
+    for (let x = 0; x < size; x++) out[row + x] = Math.sqrt(d[x]);
+  }
+  return out;
+}
+
+/** Cached computeDistanceField — `key` identifies the silhouette. */
+export function getDistanceField(key: string, rgba: Uint8ClampedArray, size: number): Float32Array {
+  const hit = cache.get(key);
+  countCache('sdf', !!hit);
+  if (hit) {
+    cache.delete(key);
+    cache.set(key, hit);
+    return hit;
+  }
+  const field = computeDistanceField(rgba, size);
+  cache.set(key, field);
+  if (cache.size > SDF_CACHE_ENTRIES) cache.delete(cache.keys().next().value!);
+  return field;
+}
@@ -0,0 +1,79 @@
+import type { LiquidGlassConfig } from '../types/index';
+
+// ─── Glass optics ─────────────────────────────────────────────────────────────
+// Maps a layer's refraction / fresnel / glare / tint settings to the factors
+// the WebGL shader and the Canvas 2D fallback scale their constants by. New
+// layers are created with the defaults below, which map to factors of 1 — the
+// look from before these settings were editable. Layers saved without them
+// render with the defaults too.
+
+type Refraction = NonNullable<LiquidGlassConfig['refraction']>;
+type Fresnel = NonNullable<LiquidGlassConfig['fresnel']>;
+type Glare = NonNullable<LiquidGlassConfig['glare']>;
+type Tint = NonNullable<LiquidGlassConfig['tint']>;
+
+export const DEFAULT_REFRACTION: Refraction = { enabled: true, thickness: 20, factor: 1.4, dispersion: 7 };
+export const DEFAULT_FRESNEL: Fresnel = { enabled: true, range: 30, factor: 20, hardness: 20 };
+export const DEFAULT_GLARE: Glare = { enabled: true, range: 30, convergence: 50, factor: 90, angle: -45 };
+export const DEFAULT_TINT: Tint = { r: 255, g: 255, b: 255, a: 0 };
+
+/** Slider ranges for the inspector. */
+export const OPTICS_RANGES = {
+  thickness:   { min: 1,    max: 80,  step: 1    },
+  factor:      { min: 1,    max: 2,   step: 0.01 },
+  dispersion:  { min: 0,    max: 50,  step: 1    },
+  range:       { min: 0,    max: 100, step: 1    },
+  hardness:    { min: 0,    max: 100, step: 1    },
+  fresnel:     { min: 0,    max: 100, step: 1    },
+  convergence: { min: 0,    max: 100, step: 1    },
+  glare:       { min: 0,    max: 120, step: 1    },
+  angle:       { min: -180, max: 180, step: 1    },
+} as const;
+
+/** Multipliers on the renderer constants — 1 everywhere at the defaults. */
+export interface GlassOptics {
+  /** Width of the rounded edge (bevel) of the glass surface */
+  thickness: number;
+  /** Background displacement at the edges (0 = none) */
+  refraction: number;
+  /** Chromatic aberration at the edges (0 = none) */
+  dispersion: number;
+  /** Fresnel rim brightness (0 = none) */
+  fresnel: number;
+  /** Fresnel falloff exponent — above 1 the rim hugs the edge more tightly */
+  fresnelFalloff: number;
+  /** How strongly the rim follows the light — above 1 it fades faster on the shadow side */
+  fresnelHardness: number;
+  /** Glare hotspot brightness (0 = none) */
+  glare: number;
+  /** Glare hotspot radius */
+  glareSpread: number;
+  /** Glare falloff exponent — above 1 the hotspot is more concentrated */
+  glareFocus: number;
+  /** Glare position relative to the light angle, degrees */
+  glareAngle: number;
+  /** Glass tint, rgb 0-255 + alpha 0-1 */
+  tint: Tint;
+}
+
+export function glassOptics(config: LiquidGlassConfig): GlassOptics {
+  const refraction = config.refraction ?? DEFAULT_REFRACTION;
+  const fresnel = config.fresnel ?? DEFAULT_FRESNEL;
+  const glare = config.glare ?? DEFAULT_GLARE;
+  return {
+    thickness: refraction.thickness / DEFAULT_REFRACTION.thickness,
+    refraction: refraction.enabled
+      ? Math.max(0, (refraction.factor - 1) / (DEFAULT_REFRACTION.factor - 1))
+      : 0,
+    dispersion: refraction.enabled ? refraction.dispersion / DEFAULT_REFRACTION.dispersion : 0,
+    fresnel: fresnel.enabled ? fresnel.factor / DEFAULT_FRESNEL.factor : 0,
+    // Each 25 points of range halves the exponent (wider rim)
+    fresnelFalloff: Math.pow(2, (DEFAULT_FRESNEL.range - fresnel.range) / 25),
+    fresnelHardness: Math.pow(2, (fresnel.hardness - DEFAULT_FRESNEL.hardness) / 30),
+    glare: glare.enabled ? glare.factor / DEFAULT_GLARE.factor : 0,
+    glareSpread: Math.max(0.05, glare.range / DEFAULT_GLARE.range),
+    glareFocus: Math.pow(2, (glare.convergence - DEFAULT_GLARE.convergence) / 25),
+    glareAngle: glare.angle - DEFAULT_GLARE.angle,
+    tint: config.tint ?? DEFAULT_TINT,
+  };
+}
@@ -0,0 +1,77 @@
+import type { RenderCanvas } from './canvas';
+
+// ─── Layer output cache ───────────────────────────────────────────────────────
+// Finished per-layer canvases (content + glass stack), keyed on a hash of
+// everything the output depends on: the layer's config, the composited
+// background beneath it, size, appearance mode and light angle. Editing one
+// layer only re-renders it and the glass layers above it (their background
+// changed) — everything else is reused.
+//
+// Least recently used entries are evicted once the canvases exceed the
+// memory budget.
+
+const LAYER_CACHE_BUDGET_BYTES = 256 * 1024 * 1024;
+
+interface LayerCacheEntry {
+  canvas: RenderCanvas;
+  bytes: number;
+  /** The output came from the WebGL path — replayed into the WebGL2 status on hits */
+  webgl: boolean;
+}
+
+// Map iteration order doubles as recency order: oldest first
+const entries = new Map<string, LayerCacheEntry>();
+let totalBytes = 0;
+
+/** cyrb53 — a fast 53-bit string hash; collisions are negligible at cache sizes. */
+export function hashString(str: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+export function getCachedLayer(key: string): LayerCacheEntry | undefined {
+  const entry = entries.get(key);
+  if (entry) {
+    // Move to the most recently used end
+    entries.delete(key);
+    entries.set(key, entry);
+  }
+  return entry;
+}
+
+/** Entry count and memory held, for the diagnostics report. */
+export function layerCacheStats(): { entries: number; bytes: number; budgetBytes: number } {
+  return { entries: entries.size, bytes: totalBytes, budgetBytes: LAYER_CACHE_BUDGET_BYTES };
+}
+
+/** Drops every entry — e.g. after the GPU context comes back, so layers
+ *  rendered by the Canvas 2D fallback meanwhile are redone with WebGL. */
+export function clearLayerCache() {
+  entries.clear();
+  totalBytes = 0;
+}
+
+export function storeLayer(key: string, canvas: RenderCanvas, webgl: boolean) {
+  const bytes = canvas.width * canvas.height * 4;
+  if (bytes > LAYER_CACHE_BUDGET_BYTES) return;
+  const previous = entries.get(key);
+  if (previous) {
+    entries.delete(key);
+    totalBytes -= previous.bytes;
+  }
+  entries.set(key, { canvas, bytes, webgl });
+  totalBytes += bytes;
+  for (const [oldKey, old] of entries) {
+    if (totalBytes <= LAYER_CACHE_BUDGET_BYTES) break;
+    entries.delete(oldKey);
+    totalBytes -= old.bytes;
+  }
+}
@@ -0,0 +1,41 @@
+import type { LayerLayout } from '../types/index';
+
+// ─── Layer layout transform ───────────────────────────────────────────────────
+// A layer's artwork is fitted to the icon square, scaled (uniform scale × the
+// per-axis scale, mirrored by the flips), rotated about the centre and moved by
+// x / y (percent of the icon size). The renderer, the canvas hit-test and the
+// selection outline all place layers through these helpers so they agree.
+//
+// Rotation, per-axis scale and flips are optional — layouts without them are
+// plain translate + uniform scale.
+
+/** Per-axis scale factors, negative along a flipped axis. */
+export function layoutScale(layout: LayerLayout): { sx: number; sy: number } {
+  const s = layout.scale / 100;
+  return {
+    sx: s * ((layout.scaleX ?? 100) / 100) * (layout.flipX ? -1 : 1),
+    sy: s * ((layout.scaleY ?? 100) / 100) * (layout.flipY ? -1 : 1),
+  };
+}
+
+/**
+ * Sets up `ctx` so artwork drawn to fill a `size` × `size` square lands where
+ * the layout puts it.
+ */
+export function applyLayoutTransform(ctx: CanvasTransform, layout: LayerLayout, size: number) {
+  const { sx, sy } = layoutScale(layout);
+  ctx.translate(size / 2 + (layout.x / 100) * size, size / 2 + (layout.y / 100) * size);
+  ctx.rotate(((layout.rotation ?? 0) * Math.PI) / 180);
+  ctx.scale(sx, sy);
+  ctx.translate(-size / 2, -size / 2);
+}
+
+/**
+ * CSS transform for an element covering the icon (`iconSize` px, transform
+ * origin at its centre). `x` / `y` override the layout position, e.g. while
+ * dragging.
+ */
+export function layoutCssTransform(layout: LayerLayout, iconSize: number, x = layout.x, y = layout.y): string {
+  const { sx, sy } = layoutScale(layout);
+  return `translate(${(x / 100) * iconSize}px, ${(y / 100) * iconSize}px) rotate(${layout.rotation ?? 0}deg) scale(${sx}, ${sy})`;
+}
@@ -0,0 +1,83 @@
+import { renderIconToCanvas, provideImage, releaseImage } from './IconRenderer';
+import { $webgl2Status, $webgl2Error } from '../store/uiStore';
+import type { Webgl2Status } from '../store/uiStore';
+import type { RenderContext } from '../types/index';
+import type { FrameReport } from './diagnostics';
+
+// ─── Render worker ────────────────────────────────────────────────────────────
+// Runs IconRenderer on OffscreenCanvas. Requests are rendered in arrival order
+// (renderIconToCanvas queues them); each result goes back as a transferred
+// ImageBitmap together with the WebGL2 status, which lives in the UI store of
+// the main thread, and the frame's diagnostics when they were asked for. A
+// cancel message aborts the matching render, which then answers with an error
+// the client no longer waits for.
+//
+// Status changes outside a render (the GPU context lost or restored while
+// idle) are sent on their own. A release message drops the images of revoked
+// blob URLs.
+
+export interface WorkerImage {
+  url: string;
+  image: ImageBitmap;
+  hiRes?: ImageBitmap;
+}
+
+export type RenderRequest =
+  | {
+    type: 'render';
+    id: number;
+    ctx: RenderContext;
+    /** Layer images the worker has not received yet */
+    images: WorkerImage[];
+  }
+  | { type: 'cancel'; id: number }
+  | { type: 'release'; urls: string[] };
+
+export type RenderResponse =
+  | { id: number; bitmap: ImageBitmap; webgl2: Webgl2Status; webgl2Error: string; report: FrameReport | null }
+  | { id: number; error: string };
+
+export interface WorkerStatus {
+  type: 'webgl2';
+  status: Webgl2Status;
+  webgl2Error: string;
+}
+
+// Renders that are queued or running, by request id
+const controllers = new Map<number, AbortController>();
+
+$webgl2Status.listen((status) => {
+  // During a render the status travels with its response
+  if (controllers.size > 0) return;
+  const message: WorkerStatus = { type: 'webgl2', status, webgl2Error: $webgl2Error.get() };
+  self.postMessage(message);
+});
+
+self.onmessage = async (e: MessageEvent<RenderRequest>) => {
+  const request = e.data;
+  if (request.type === 'cancel') {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+  if (request.type === 'release') {
+    request.urls.forEach(releaseImage);
+    return;
+  }
+
+  const { id, ctx, images } = request;
+  for (const { url, image, hiRes } of images) provideImage(url, image, hiRes);
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  try {
+    const output = new OffscreenCanvas(ctx.size, ctx.size);
+    const report = await renderIconToCanvas(output, ctx, controller.signal);
+    const bitmap = output.transferToImageBitmap();
+    const response: RenderResponse = { id, bitmap, webgl2: $webgl2Status.get(), webgl2Error: $webgl2Error.get(), report };
+    self.postMessage(response, { transfer: [bitmap] });
+  } catch (err) {
+    const response: RenderResponse = { id, error: err instanceof Error ? err.message : String(err) };
+    self.postMessage(response);
+  } finally {
+    controllers.delete(id);
+  }
+};
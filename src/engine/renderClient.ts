@@ -0,0 +1,212 @@
+import { renderIconToCanvas, releaseImage, HI_RES_SIZE, HI_RES_THRESHOLD } from './IconRenderer';
+import { loadImage } from './ImageProcessor';
+import { setWebgl2Status, setWebgl2Error } from '../store/uiStore';
+import { onBlobUrlsRevoked } from '../store/history';
+import type { RenderContext } from '../types/index';
+import type { FrameReport } from './diagnostics';
+import type { Webgl2Status } from '../store/uiStore';
+import type { RenderRequest, RenderResponse, WorkerImage, WorkerStatus } from './render.worker';
+
+// ─── Render client ────────────────────────────────────────────────────────────
+// Main-thread entry point for rendering. Renders run in render.worker.ts so
+// dragging and slider edits never block the UI; the main-thread renderer is
+// only used where the worker cannot run WebGL2 on OffscreenCanvas (or the
+// worker failed to start).
+//
+// The worker cannot decode SVGs, so layer images are decoded here once and
+// sent over as ImageBitmaps with the first render that needs them. A URL only
+// counts as sent once its bitmaps were posted; one that failed to decode is
+// tried again by the next render.
+//
+// Aborting a render's signal rejects it right away with an AbortError and
+// tells the worker to stop; whatever the worker still sends back is dropped.
+
+type Pending = {
+  canvas: HTMLCanvasElement;
+  ctx: RenderContext;
+  signal?: AbortSignal;
+  resolve: (report: FrameReport | null) => void;
+  reject: (err: Error) => void;
+};
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextId = 1;
+const pending = new Map<number, Pending>();
+// Image URLs the worker already holds
+const sentImages = new Set<string>();
+// Decodes not posted yet, by URL — the request that started one sends it
+const decoding = new Map<string, Promise<WorkerImage | null>>();
+// Requests are posted in call order, even while an earlier one still decodes
+// images — a later request must never reach the worker before its images
+let sendQueue: Promise<void> = Promise.resolve();
+
+function supportsWorkerRendering(): boolean {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return false;
+  try {
+    return new OffscreenCanvas(1, 1).getContext('webgl2') !== null;
+  } catch {
+    return false;
+  }
+}
+
+function getWorker(): Worker | null {
+  if (workerFailed) return null;
+  if (worker) return worker;
+  if (!supportsWorkerRendering()) {
+    workerFailed = true;
+    return null;
+  }
+  try {
+    worker = new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' });
+  } catch (err) {
+    console.warn('Render worker unavailable, rendering on the main thread:', err);
+    workerFailed = true;
+    return null;
+  }
+  worker.onmessage = (e: MessageEvent<RenderResponse | WorkerStatus>) => {
+    if ('type' in e.data) applyWebgl2Status(e.data.status, e.data.webgl2Error);
+    else settle(e.data);
+  };
+  worker.onerror = (e) => {
+    // The worker script failed to load or crashed — finish everything locally
+    console.warn('Render worker failed, rendering on the main thread:', e.message);
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+    const stranded = [...pending.values()];
+    pending.clear();
+    for (const p of stranded) renderIconToCanvas(p.canvas, p.ctx, p.signal).then(p.resolve, p.reject);
+  };
+  return worker;
+}
+
+/** True for the rejection of a cancelled render or export. */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+function applyWebgl2Status(status: Webgl2Status, error: string) {
+  if (status === 'error') setWebgl2Error(error);
+  else setWebgl2Status(status);
+}
+
+function settle(response: RenderResponse) {
+  const p = pending.get(response.id);
+  if (!p) {
+    // Cancelled on this side already
+    if ('bitmap' in response) response.bitmap.close();
+    return;
+  }
+  pending.delete(response.id);
+  if ('error' in response) {
+    p.reject(new Error(response.error));
+    return;
+  }
+  applyWebgl2Status(response.webgl2, response.webgl2Error);
+  // Resizing clears the canvas — the bitmap replaces the previous frame in one step
+  p.canvas.width = p.canvas.height = response.bitmap.width;
+  p.canvas.getContext('2d')?.drawImage(response.bitmap, 0, 0);
+  response.bitmap.close();
+  p.resolve(response.report);
+}
+
+async function decodeImage(url: string): Promise<WorkerImage | null> {
+  try {
+    const img = await loadImage(url);
+    const image = await createImageBitmap(img);
+    if (img.naturalWidth > HI_RES_THRESHOLD && img.naturalHeight > HI_RES_THRESHOLD) return { url, image };
+    // Small SVGs: rasterize at HI_RES_SIZE, like the main-thread hi-res cache
+    const hi = new Image(HI_RES_SIZE, HI_RES_SIZE);
+    hi.src = url;
+    await hi.decode();
+    const scale = HI_RES_SIZE / Math.max(img.naturalWidth, img.naturalHeight);
+    const hiRes = await createImageBitmap(hi, {
+      resizeWidth: Math.round(img.naturalWidth * scale),
+      resizeHeight: Math.round(img.naturalHeight * scale),
+      resizeQuality: 'high',
+    });
+    return { url, image, hiRes };
+  } catch {
+    return null; // broken blobs are skipped by the renderer as well
+  }
+}
+
+/**
+ * Renders the icon into `canvas` — in the render worker when possible.
+ * Resolves with the frame's diagnostics when `ctx.diagnostics` is set.
+ */
+export async function renderIcon(
+  canvas: HTMLCanvasElement,
+  ctx: RenderContext,
+  signal?: AbortSignal,
+): Promise<FrameReport | null> {
+  signal?.throwIfAborted();
+  if (!getWorker()) return renderIconToCanvas(canvas, ctx, signal);
+
+  const urls = [...new Set(ctx.layers.map((l) => l.blobUrl).filter((u): u is string => !!u))]
+    .filter((u) => !sentImages.has(u) && !decoding.has(u));
+  const decodes = urls.map((u) => {
+    const decode = decodeImage(u);
+    decoding.set(u, decode);
+    return decode;
+  });
+
+  return new Promise<FrameReport | null>((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { canvas, ctx, signal, resolve, reject });
+    signal?.addEventListener('abort', () => {
+      if (!pending.delete(id)) return;
+      reject(signal.reason);
+      worker?.postMessage({ type: 'cancel', id } satisfies RenderRequest);
+    }, { once: true });
+    sendQueue = sendQueue.then(async () => {
+      const images: WorkerImage[] = [];
+      for (const [i, url] of urls.entries()) {
+        const image = await decodes[i];
+        // Released while decoding: the URL is revoked, nothing to send
+        if (decoding.get(url) !== decodes[i]) {
+          if (image) closeWorkerImage(image);
+          continue;
+        }
+        decoding.delete(url);
+        if (image) images.push(image);
+      }
+      // The worker may have failed meanwhile — settled by its error handler then
+      if (!worker) {
+        images.forEach(closeWorkerImage);
+        return;
+      }
+      // Images still go over for later renders, even if this one was cancelled
+      const request: RenderRequest = { type: 'render', id, ctx, images };
+      const transfer = images.flatMap((i) => (i.hiRes ? [i.image, i.hiRes] : [i.image]));
+      worker.postMessage(request, transfer);
+      images.forEach((i) => sentImages.add(i.url));
+    }).catch((err) => {
+      // Keeps the queue going for later requests
+      if (pending.delete(id)) reject(err instanceof Error ? err : new Error(String(err)));
+    });
+  });
+}
+
+function closeWorkerImage(image: WorkerImage) {
+  image.image.close();
+  image.hiRes?.close();
+}
+
+/**
+ * Drops the decoded images of revoked blob URLs, here and in the render
+ * worker. Registered with the history store, which calls it after
+ * `URL.revokeObjectURL`.
+ */
+function releaseImages(urls: string[]) {
+  if (urls.length === 0) return;
+  for (const url of urls) {
+    releaseImage(url);
+    sentImages.delete(url);
+    decoding.delete(url);
+  }
+  worker?.postMessage({ type: 'release', urls } satisfies RenderRequest);
+}
+
+onBlobUrlsRevoked(releaseImages);
@@ -0,0 +1,21 @@
+#version 300 es
+precision highp float;
+
+// One blur pyramid step: copies the input into a target of the same or half
+// size. Sampling at the target's pixel centers with LINEAR filtering averages
+// each 2×2 block when halving.
+
+uniform sampler2D uTex;
+uniform vec2 uResolution;  // target size
+uniform bool uLinearize;   // sRGB → linear (first step from an uploaded image)
+
+out vec4 fragColor;
+
+// Fast sRGB→linear approximation (x^2 ≈ x^2.2, avoids costly pow())
+vec3 toLinear(vec3 srgb) { vec3 s = max(srgb, 0.0); return s * s; }
+
+void main() {
+  vec4 color = texture(uTex, gl_FragCoord.xy / uResolution);
+  if (uLinearize) color.rgb = toLinear(color.rgb);
+  fragColor = color;
+}
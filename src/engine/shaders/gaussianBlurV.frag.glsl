@@ -3,25 +3,31 @@ precision highp float;
 
 #define MAX_BLUR_RADIUS 128
 
-in vec2 v_uv;
-
 uniform sampler2D u_inputTex;
 uniform vec2 u_resolution;
 uniform int u_blurRadius;
 uniform float u_blurWeights[MAX_BLUR_RADIUS + 1];
+uniform float u_saturation;  // 1.0 = unchanged
 
 out vec4 fragColor;
 
 void main() {
+  // Input and output share a size — sampling at the fragment's own texel keeps
+  // the image upright across passes
   vec2 texelSize = 1.0 / u_resolution;
-  vec4 color = texture(u_inputTex, v_uv) * u_blurWeights[0];
+  vec2 uv = gl_FragCoord.xy * texelSize;
+  vec4 color = texture(u_inputTex, uv) * u_blurWeights[0];
 
   for (int i = 1; i <= u_blurRadius; ++i) {
     float w = u_blurWeights[i];
     float offset = float(i) * texelSize.y;
-    color += texture(u_inputTex, v_uv + vec2(0.0, offset)) * w;
-    color += texture(u_inputTex, v_uv - vec2(0.0, offset)) * w;
+    color += texture(u_inputTex, uv + vec2(0.0, offset)) * w;
+    color += texture(u_inputTex, uv - vec2(0.0, offset)) * w;
   }
 
+  // Saturation boost: glass picks up vivid background colour (dark mode)
+  float gray = dot(color.rgb, vec3(0.299, 0.587, 0.114));
+  color.rgb = mix(vec3(gray), color.rgb, u_saturation);
+
   fragColor = color;
 }
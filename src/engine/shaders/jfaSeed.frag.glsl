@@ -0,0 +1,27 @@
+#version 300 es
+precision highp float;
+
+// Jump flood, seed pass: marks the silhouette edge. A pixel inside the
+// silhouette (alpha ≥ 0.5) with a 4-neighbour outside it is an edge pixel and
+// stores its own coordinate; every other pixel stores the empty marker.
+// Rendered at the layer texture's size, so texel (x, y) maps to pixel (x, y).
+
+uniform sampler2D uTex;
+
+out uvec4 seed;
+
+const uint SDF_EMPTY = 65535u;
+
+float inside(ivec2 p) {
+  ivec2 size = textureSize(uTex, 0);
+  if (any(lessThan(p, ivec2(0))) || any(greaterThanEqual(p, size))) return 0.0;
+  return step(0.5, texelFetch(uTex, p, 0).a);
+}
+
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  float ring = inside(p + ivec2(1, 0)) * inside(p - ivec2(1, 0))
+             * inside(p + ivec2(0, 1)) * inside(p - ivec2(0, 1));
+  bool edge = inside(p) > 0.5 && ring < 0.5;
+  seed = edge ? uvec4(uvec2(p), 0u, 0u) : uvec4(SDF_EMPTY);
+}
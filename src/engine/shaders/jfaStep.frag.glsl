@@ -0,0 +1,37 @@
+#version 300 es
+precision highp float;
+precision highp usampler2D;
+
+// Jump flood step: each pixel keeps the nearest edge coordinate among its own
+// and the 8 neighbours `uStep` px away. Halving the step from the largest
+// power of two down to 1 gives every pixel its nearest edge pixel.
+
+uniform usampler2D uSeedTex;
+uniform int uStep;
+
+out uvec4 seed;
+
+const uint SDF_EMPTY = 65535u;
+
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  ivec2 size = textureSize(uSeedTex, 0);
+  uvec2 best = uvec2(SDF_EMPTY);
+  float bestDist = 1e20;
+
+  for (int y = -1; y <= 1; y++) {
+    for (int x = -1; x <= 1; x++) {
+      ivec2 q = p + ivec2(x, y) * uStep;
+      if (any(lessThan(q, ivec2(0))) || any(greaterThanEqual(q, size))) continue;
+      uvec2 s = texelFetch(uSeedTex, q, 0).xy;
+      if (s.x == SDF_EMPTY) continue;
+      vec2 d = vec2(s) - vec2(p);
+      float dist = dot(d, d);
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = s;
+      }
+    }
+  }
+  seed = uvec4(best, 0u, 0u);
+}
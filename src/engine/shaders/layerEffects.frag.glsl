@@ -0,0 +1,206 @@
+#version 300 es
+precision highp float;
+
+// Layer effects composite: drop shadow → glass → bevel, in one pass.
+// GPU port of drawDropShadow + drawLayerBevel (IconRenderer.ts). Blending
+// follows Canvas 2D compositing on non-premultiplied colors, so the result
+// matches the Canvas 2D passes it replaces.
+//
+// Alphas mirror the LAYER_* constants in IconRenderer.ts — keep them in sync.
+// [1] INNER SPECULAR DOME
+const float FX_DOME_INTENSITY    = 0.50;
+const float FX_DOME_CENTER_ALPHA = 0.18;
+const float FX_DOME_MID_ALPHA    = 0.09;
+const float FX_DOME_EDGE_ALPHA   = 0.05;
+const float FX_DOME_RADIUS       = 0.80;
+// [2] INNER COLORED RIM (+ interior holes)
+const float FX_RIM_LIT_ALPHA     = 0.65;
+const float FX_RIM_MID_ALPHA     = 0.50;
+const float FX_RIM_SHADOW_ALPHA  = 0.22;
+const float FX_RIM_ALPHA_BLUR    = 0.80;
+const float FX_RIM_ALPHA_SHARP   = 0.45;
+const float FX_HOLES_ALPHA_BLUR  = 0.80;
+const float FX_HOLES_ALPHA_SHARP = 0.45;
+// [4] INNER SHADOW
+const float FX_INNER_SHADOW_DARK_ALPHA  = 0.30;
+const float FX_INNER_SHADOW_MID_ALPHA   = 0.12;
+const float FX_INNER_SHADOW_ALPHA_BLUR  = 0.80;
+const float FX_INNER_SHADOW_ALPHA_SHARP = 0.30;
+// [5] OUTER BORDER
+const float FX_OUTER_BORDER_ALPHA = 0.55;
+// =============================================================================
+
+in vec2 vUV;
+
+uniform sampler2D uLayerTex;      // layer content
+uniform sampler2D uGlassTex;      // glass pass output (framebuffer orientation)
+uniform sampler2D uEdgeMaskTex;   // blurred content alpha — rim / holes / inner shadow erosion
+uniform sampler2D uDomeMaskTex;   // blurred content alpha — specular dome
+uniform sampler2D uShadowMaskTex; // blurred content alpha — drop shadow
+
+uniform float uSize;              // render size in px
+uniform vec2  uLightDir;          // lit side, canvas space (Y down)
+uniform vec3  uLayerColor;        // rim tint, 0-1
+uniform vec4  uRim;               // x=rim width, y=rim blur, z=inner shadow width, w=inner shadow blur (px)
+uniform float uBorderWidth;       // outer border dilation (px)
+uniform vec4  uShadowColor;       // rgb + alpha (alpha 0 = no shadow)
+uniform float uShadowOffset;      // shadow Y offset (px)
+uniform bool  uDraft;             // primary dome + rim only
+
+out vec4 fragColor;
+
+const int BLEND_NORMAL   = 0;
+const int BLEND_SCREEN   = 1;
+const int BLEND_MULTIPLY = 2;
+
+// ── Canvas 2D compositing (source-over with a separable blend mode) ──────────
+vec4 composite(vec4 dst, vec3 src, float srcA, int mode) {
+  if (srcA <= 0.0) return dst;
+  vec3 mixed = mode == BLEND_SCREEN   ? dst.rgb + src - dst.rgb * src
+             : mode == BLEND_MULTIPLY ? dst.rgb * src
+             : src;
+  float a = srcA + dst.a * (1.0 - srcA);
+  vec3 premul = srcA * (1.0 - dst.a) * src + srcA * dst.a * mixed + (1.0 - srcA) * dst.a * dst.rgb;
+  return vec4(premul / max(a, 1e-5), a);
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+// Transparent outside the texture, like drawImage outside its destination rect
+float alphaAt(sampler2D tex, vec2 uv) {
+  if (uv.x < 0.0 || uv.y < 0.0 || uv.x > 1.0 || uv.y > 1.0) return 0.0;
+  return texture(tex, uv).a;
+}
+
+// drawImage(src, w/2, w/2, size - w, size - w) — content shrunk by w px
+vec2 shrink(vec2 uv, float w) {
+  return (uv * uSize - w * 0.5) / (uSize - w);
+}
+
+// drawImage(src, -d, -d, size + 2d, size + 2d) — content grown by d px
+vec2 grow(vec2 uv, float d) {
+  return (uv * uSize + d) / (uSize + d * 2.0);
+}
+
+// Position along the lit → shadow axis (0 = lit edge, 1 = shadow edge)
+float lightAxis(vec2 uv) {
+  vec2 p0 = 0.5 + uLightDir * 0.5;
+  vec2 p1 = 0.5 - uLightDir * 0.5;
+  vec2 d  = p1 - p0;
+  return clamp(dot(uv - p0, d) / dot(d, d), 0.0, 1.0);
+}
+
+float rimGradient(float t) {
+  if (t < 0.40) return mix(FX_RIM_LIT_ALPHA, FX_RIM_MID_ALPHA, t / 0.40);
+  if (t < 0.70) return mix(FX_RIM_MID_ALPHA, FX_RIM_SHADOW_ALPHA + 0.10, (t - 0.40) / 0.30);
+  return mix(FX_RIM_SHADOW_ALPHA + 0.10, FX_RIM_SHADOW_ALPHA, (t - 0.70) / 0.30);
+}
+
+float holesGradient(float t) {
+  if (t < 0.40) return mix(FX_RIM_LIT_ALPHA, FX_RIM_MID_ALPHA, t / 0.40);
+  return mix(FX_RIM_MID_ALPHA, FX_RIM_SHADOW_ALPHA, (t - 0.40) / 0.60);
+}
+
+float innerShadowGradient(float t) {
+  // Runs from the shadow edge toward the lit edge
+  float s = 1.0 - t;
+  if (s < 0.20) return mix(FX_INNER_SHADOW_DARK_ALPHA, FX_INNER_SHADOW_MID_ALPHA, s / 0.20);
+  if (s < 0.50) return mix(FX_INNER_SHADOW_MID_ALPHA, 0.0, (s - 0.20) / 0.30);
+  return 0.0;
+}
+
+float domeGradient(float d) {
+  if (d < 0.18) return mix(FX_DOME_CENTER_ALPHA, FX_DOME_MID_ALPHA, d / 0.18);
+  if (d < 0.45) return mix(FX_DOME_MID_ALPHA, FX_DOME_EDGE_ALPHA, (d - 0.18) / 0.27);
+  if (d < 0.70) return mix(FX_DOME_EDGE_ALPHA, 0.0, (d - 0.45) / 0.25);
+  return 0.0;
+}
+
+// Band just inside the content edge, `w` px wide
+float innerRing(vec2 uv, float w) {
+  return alphaAt(uLayerTex, uv) * (1.0 - alphaAt(uEdgeMaskTex, shrink(uv, w)));
+}
+
+// Band just inside the edges of interior cutouts
+float holeRing(vec2 uv, float w) {
+  float hole    = 1.0 - alphaAt(uLayerTex, uv);
+  float dilated = alphaAt(uEdgeMaskTex, grow(uv, w * 1.2));
+  return hole * alphaAt(uEdgeMaskTex, shrink(uv, w)) * dilated;
+}
+
+// 5-tap approximation of blur(r) — the soft copy drawn under each sharp ring
+float softInnerRing(vec2 uv, float w, float r) {
+  vec2 o = vec2(r / uSize);
+  return (innerRing(uv, w) * 2.0
+    + innerRing(uv + vec2( o.x,  o.y), w) + innerRing(uv + vec2(-o.x,  o.y), w)
+    + innerRing(uv + vec2( o.x, -o.y), w) + innerRing(uv + vec2(-o.x, -o.y), w)) / 6.0;
+}
+
+float softHoleRing(vec2 uv, float w, float r) {
+  vec2 o = vec2(r / uSize);
+  return (holeRing(uv, w) * 2.0
+    + holeRing(uv + vec2( o.x,  o.y), w) + holeRing(uv + vec2(-o.x,  o.y), w)
+    + holeRing(uv + vec2( o.x, -o.y), w) + holeRing(uv + vec2(-o.x, -o.y), w)) / 6.0;
+}
+
+// ── Main ─────────────────────────────────────────────────────────────────────
+void main() {
+  vec2  uv = vUV;
+  float t  = lightAxis(uv);
+  vec4  result = vec4(0.0);
+
+  // ── Drop shadow (below the glass) ─────────────────────────────────────────
+  if (uShadowColor.a > 0.0) {
+    float s = alphaAt(uShadowMaskTex, uv - vec2(0.0, uShadowOffset / uSize));
+    result = vec4(uShadowColor.rgb, uShadowColor.a * s);
+  }
+
+  // ── Glass ─────────────────────────────────────────────────────────────────
+  vec4 glass = clamp(texture(uGlassTex, vec2(uv.x, 1.0 - uv.y)), 0.0, 1.0);
+  result = composite(result, glass.rgb, glass.a, BLEND_NORMAL);
+
+  // ── [1] Inner specular dome ───────────────────────────────────────────────
+  {
+    vec2  lit  = 0.5 + uLightDir * 0.42;
+    float dome = alphaAt(uDomeMaskTex, uv) * domeGradient(length(uv - lit) / FX_DOME_RADIUS);
+    result = composite(result, vec3(1.0), dome * FX_DOME_INTENSITY, BLEND_SCREEN);
+  }
+
+  // ── [2] Inner colored rim (+ interior holes) ─────────────────────────────
+  {
+    float tint = rimGradient(t);
+    result = composite(result, uLayerColor, softInnerRing(uv, uRim.x, uRim.y) * tint * FX_RIM_ALPHA_BLUR, BLEND_SCREEN);
+    result = composite(result, uLayerColor, innerRing(uv, uRim.x) * tint * FX_RIM_ALPHA_SHARP, BLEND_SCREEN);
+
+    if (!uDraft) {
+      float holeTint = holesGradient(t);
+      result = composite(result, uLayerColor, softHoleRing(uv, uRim.x, uRim.y) * holeTint * FX_HOLES_ALPHA_BLUR, BLEND_SCREEN);
+      result = composite(result, uLayerColor, holeRing(uv, uRim.x) * holeTint * FX_HOLES_ALPHA_SHARP, BLEND_SCREEN);
+    }
+  }
+
+  // Draft renders stop at the primary dome + rim
+  if (uDraft) { fragColor = result; return; }
+
+  // ── [4] Inner shadow on the shadow side ──────────────────────────────────
+  {
+    vec3  dark  = vec3(0.0, 0.0, 10.0 / 255.0);
+    float shade = innerShadowGradient(t);
+    result = composite(result, dark, softInnerRing(uv, uRim.z, uRim.w) * shade * FX_INNER_SHADOW_ALPHA_BLUR, BLEND_MULTIPLY);
+    result = composite(result, dark, innerRing(uv, uRim.z) * shade * FX_INNER_SHADOW_ALPHA_SHARP, BLEND_MULTIPLY);
+  }
+
+  // ── [5] Outer border ring (layer color, outside shape) ───────────────────
+  {
+    vec2  g   = grow(uv, uBorderWidth);
+    vec2  o   = vec2(max(0.5, uBorderWidth * 0.5) / uSize);
+    float grown = (alphaAt(uLayerTex, g) * 2.0
+      + alphaAt(uLayerTex, g + vec2( o.x,  o.y)) + alphaAt(uLayerTex, g + vec2(-o.x,  o.y))
+      + alphaAt(uLayerTex, g + vec2( o.x, -o.y)) + alphaAt(uLayerTex, g + vec2(-o.x, -o.y))) / 6.0;
+    vec4  color = texture(uLayerTex, clamp(g, 0.0, 1.0));
+    float ring  = grown * (1.0 - alphaAt(uLayerTex, uv)) * alphaAt(uLayerTex, g);
+    result = composite(result, color.rgb, ring * FX_OUTER_BORDER_ALPHA, BLEND_NORMAL);
+  }
+
+  fragColor = result;
+}
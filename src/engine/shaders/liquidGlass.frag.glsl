@@ -1,13 +1,21 @@
 #version 300 es
 precision highp float;
+precision highp usampler2D;
 
+// Constants marked * are scaled by the layer's glass optics (glassOptics.ts) —
+// the factors are 1 at the default settings.
 // [A] SPECULAR — bright spot at the lit corner edge
-const float GL_SPECULAR_EDGE  = 0.22; // specular intensity clipped to edge ring
-const float GL_RIM_INTENSITY  = 0.28; // Fresnel rim brightness (grazing angle glow)
-const float GL_RIM_POWER      = 2.4;  // rim falloff — higher = thinner rim
-const float GL_RIM_NDOT_POWER = 3.0;  // rim light-angle response — higher = more directional
+const float GL_SPECULAR_EDGE  = 0.22; // * glare: specular intensity clipped to edge ring
+const float GL_GLARE_RADIUS   = 0.22; // * glare: hotspot radius (UV)
+const float GL_GLARE_POWER    = 10.0; // * glare: hotspot falloff — higher = tighter spot
+const float GL_RIM_INTENSITY  = 0.28; // * fresnel: rim brightness (grazing angle glow)
+const float GL_RIM_POWER      = 2.4;  // * fresnel: rim falloff — higher = thinner rim
+const float GL_RIM_NDOT_POWER = 3.0;  // * fresnel: light-angle response — higher = more directional
+// [B] REFRACTION
+const float GL_MAGNIFICATION  = 0.008;// * refraction: interior magnification of the background
+const float GL_BEVEL_REFRACTION = 0.006; // * refraction: background displacement across the bevel (UV)
 // [C] ENVIRONMENT REFLECTION — glass surface reflecting ambient surroundings
-const float GL_ENV_FRESNEL    = 0.14; // reflection strength at grazing angles
+const float GL_ENV_FRESNEL    = 0.14; // * fresnel: reflection strength at grazing angles
 // [D] INNER GLOW — warm/cool luminous band just inside the edge
 const float GL_INNER_GLOW     = 0.22; // glow intensity
 // [E] AMBIENT RIM — background color bleeding into the shadow-side edge
@@ -24,14 +32,23 @@ in vec2 vScreenUV;
 uniform sampler2D uLayerTex;       // layer content (alpha = glass mask)
 uniform sampler2D uBlurredBgTex;   // 2-pass Gaussian blurred background
 uniform sampler2D uOrigBgTex;      // original (sharp) background
+uniform usampler2D uSdfTex;        // nearest silhouette edge pixel per pixel (jump flood)
 
 uniform vec4  uParams1;            // x=blur, y=translucency, z=specular, w=opacity
 uniform vec4  uParams2;            // x=darkAdjust, y=monoAdjust, z=aberration, w=mode
 uniform vec2  uLightDir;           // normalised, FROM light source
 uniform vec2  uTexelSize;          // 1/resolution
+uniform float uBevelWidth;         // px — width of the rounded edge, scaled by thickness
+uniform float uRefraction;         // refraction factor
+uniform vec3  uFresnel;            // x=intensity, y=falloff, z=hardness (factors)
+uniform vec3  uGlare;              // x=intensity, y=spread, z=focus (factors)
+uniform vec2  uGlareDir;           // normalised, light direction rotated by the glare angle
+uniform vec4  uTint;               // glass tint, rgb + amount (0-1)
 
 out vec4 fragColor;
 
+const uint SDF_EMPTY = 65535u;
+
 // ── Color space conversion (~95% accurate gamma, avoids costly pow) ──────────
 vec3 toLinear(vec3 srgb) { vec3 s = max(srgb, 0.0); return s * s; }
 vec3 toSRGB(vec3 lin)    { return sqrt(max(lin, 0.0)); }
@@ -63,6 +80,19 @@ vec2 alphaGradient(vec2 uv) {
   return vec2(aR - aL, aU - aD) * 0.5;
 }
 
+// Distance in px from this pixel to the silhouette edge, and the direction
+// away from it (into the shape). 0 on and outside the edge.
+float edgeDistance(out vec2 inward) {
+  uvec2 seed = texelFetch(uSdfTex, ivec2(gl_FragCoord.xy), 0).xy;
+  inward = vec2(0.0);
+  if (seed.x == SDF_EMPTY) return 1e6;      // no edge anywhere: a full-canvas layer
+  vec2 toPx = gl_FragCoord.xy - (vec2(seed) + 0.5);
+  float d = length(toPx);
+  if (d > 0.0) inward = toPx / d;
+  // Seeds are the innermost edge pixels — their centres sit half a pixel in
+  return d + 0.5;
+}
+
 // Edge magnitude: smooth falloff from edge using screen-space derivatives.
 float edgeMagnitude(float alpha) {
   vec2 d = vec2(dFdx(alpha), dFdy(alpha));
@@ -76,17 +106,22 @@ void main() {
   float alpha = sampleAlpha(vUV);
   if (alpha < 0.01) { fragColor = vec4(0.0); return; }
 
-  // Internal smart constants for maximum quality (not exposed as uniforms)
-  const float uThickness = 0.65;
+  // Internal smart constant for maximum quality (not exposed as a uniform)
   const float uStrength  = 0.72;
 
-  // Surface gradient and edge strength
+  // Surface normal: the alpha gradient resolves the anti-aliased edge itself,
+  // the distance field the direction everywhere further in
   vec2  grad     = alphaGradient(vUV);
   float gradLen  = length(grad);
-  vec2  normal   = gradLen > 0.001 ? grad / gradLen : vec2(0.0);
-
-  float thicknessScale = 1.0 + uThickness * 3.0;
-  float normalLen = clamp(gradLen * 3.4 * thicknessScale, 0.0, 1.0);
+  vec2  gradNormal = gradLen > 0.001 ? grad / gradLen : vec2(0.0);
+  vec2  inward   = vec2(0.0);
+  float edgeDist = alpha < 0.5 ? 0.0 : edgeDistance(inward);
+  vec2  normal   = mix(gradNormal, inward, smoothstep(1.0, 3.0, edgeDist));
+  normal         = length(normal) > 0.001 ? normalize(normal) : vec2(0.0);
+
+  // Circular bevel profile: the normal tilts from horizontal at the edge to
+  // upright one bevel width in, so its in-plane length falls off linearly
+  float normalLen = 1.0 - clamp(edgeDist / uBevelWidth, 0.0, 1.0);
   float edge     = edgeMagnitude(alpha);
 
   // Corner proximity for corner-boost refraction
@@ -99,17 +134,20 @@ void main() {
   float baseZone = 1.0 - normalLen;
 
   // Light direction in UV space (Y flipped — UV is Y-down, math is Y-up)
-  vec2 litDir = vec2(uLightDir.x, -uLightDir.y);
+  vec2 litDir   = vec2(uLightDir.x, -uLightDir.y);
+  vec2 glareDir = vec2(uGlareDir.x, -uGlareDir.y);
 
   vec2  fromCenter   = vUV - 0.5;
   float dist         = length(fromCenter);
   vec2  normFromCtr  = dist > 0.001 ? normalize(fromCenter) : vec2(0.0);
 
   // ── 1. Base glass: blurred bg + tint ──────────────────────────────────────
-  float magStrength = 0.008 * baseZone * uParams1.y;
+  float magStrength = GL_MAGNIFICATION * uRefraction * baseZone * uParams1.y;
   vec2  magUV       = vScreenUV + (vScreenUV - 0.5) * magStrength;
+  // The bevel pulls the background in from the rim, most steeply at the edge
+  magUV            += normal * normalLen * normalLen * GL_BEVEL_REFRACTION * uRefraction * uParams1.y;
 
-  float edgeBand  = pow(edge, 1.0) * smoothstep(0.06, 0.85, normalLen);
+  float edgeBand  = max(edge, normalLen * normalLen) * smoothstep(0.06, 0.85, normalLen);
   vec2  aberrOff  = normal * edgeBand * uParams2.z * 0.010;
   float r = texture(uBlurredBgTex, clamp(magUV + aberrOff, 0.001, 0.999)).r;
   float g = texture(uBlurredBgTex, clamp(magUV,            0.001, 0.999)).g;
@@ -126,6 +164,7 @@ void main() {
   vec4 layerColor = texture(uLayerTex, vUV);
   layerColor.rgb  = toLinear(layerColor.rgb);
   vec4 glassBase  = bgBase;
+  glassBase.rgb   = mix(glassBase.rgb, toLinear(uTint.rgb), uTint.a);
 
   float mask    = layerColor.a;
   float layerMix = (1.0 - uParams1.y) * mask;
@@ -141,13 +180,14 @@ void main() {
 
   // ── 3. Specular & Rim ──────────────────────────────────────────────────────
   if (uParams1.z > 0.0) {
-    vec2  litPos  = vec2(0.5) + litDir * 0.48;
-    float spec    = pow(max(0.0, 1.0 - length(vUV - litPos) / 0.22), 10.0);
+    vec2  glarePos = vec2(0.5) + glareDir * 0.48;
+    float spec    = pow(max(0.0, 1.0 - length(vUV - glarePos) / (GL_GLARE_RADIUS * uGlare.y)), GL_GLARE_POWER * uGlare.z);
     float ndotv   = max(0.0, -dot(normal, litDir));
-    float rim     = pow(normalLen, GL_RIM_POWER) * pow(ndotv, GL_RIM_NDOT_POWER) * GL_RIM_INTENSITY;
+    float rim     = pow(normalLen, GL_RIM_POWER * uFresnel.y) * pow(ndotv, GL_RIM_NDOT_POWER * uFresnel.z)
+                  * GL_RIM_INTENSITY * uFresnel.x;
     float edgeMask = smoothstep(0.35, 0.92, normalLen);
     float specEdge = spec * edgeMask * edgeBand;
-    result.rgb    += (specEdge * GL_SPECULAR_EDGE + rim) * uParams1.z * vec3(1.0);
+    result.rgb    += (specEdge * GL_SPECULAR_EDGE * uGlare.x + rim) * uParams1.z * vec3(1.0);
   }
 
   // ── 4. Environment reflection ──────────────────────────────────────────────
@@ -156,7 +196,7 @@ void main() {
     vec3  envWarm   = vec3(1.00, 0.97, 0.92);
     vec3  envCool   = vec3(0.75, 0.80, 0.90);
     vec3  envColor  = mix(envCool, envWarm, envNdotL);
-    float envFresnel   = normalLen * normalLen * GL_ENV_FRESNEL;
+    float envFresnel   = normalLen * normalLen * GL_ENV_FRESNEL * uFresnel.x;
     float envIntensity = envFresnel * (uParams1.z > 0.0 ? uParams1.z : 0.3);
     if (mode == 1) {
       envColor      = mix(envColor, vec3(0.15, 0.18, 0.25), 0.6);
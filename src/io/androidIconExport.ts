@@ -0,0 +1,158 @@
+import type { Zippable } from 'fflate';
+import { $layers, $background, $iconName } from '../store/iconStore';
+import { $lightAngle } from '../store/uiStore';
+import type { BackgroundConfig, Layer } from '../types/index';
+import { MASTER_SIZE, renderMaster, resizeCanvas, canvasToBytes } from './rasterize';
+import { zipFiles, downloadBlob, sanitizeFileName } from './download';
+
+// ─── Android adaptive icon ────────────────────────────────────────────────────
+// An adaptive icon is two 108dp layers — background and foreground — that the
+// launcher masks to its own shape, showing only the central 72dp viewport
+// (key artwork belongs in the 66dp circle inside it). Our 1024pt canvas maps
+// onto that 72dp viewport; the background bleeds out to the full 108dp so
+// launcher parallax and shape masks never reveal an edge.
+//
+// Android 13 themed icons use a monochrome layer: only its alpha matters, so it
+// is the union of the layers' content in white — rendered without glass, drop
+// shadows or partial opacity, which would otherwise show up as halos.
+//
+// Pre-API 26 devices get legacy 48dp ic_launcher / ic_launcher_round PNGs.
+
+const ADAPTIVE_DP = 108;
+const VIEWPORT_DP = 72;
+const LEGACY_DP = 48;
+const PLAY_STORE_SIZE = 512;
+
+// Scale factor of each mipmap density relative to mdpi (1px = 1dp)
+const DENSITIES = [
+  ['mdpi', 1],
+  ['hdpi', 1.5],
+  ['xhdpi', 2],
+  ['xxhdpi', 3],
+  ['xxxhdpi', 4],
+] as const;
+
+// Legacy "square" launcher icons are rounded squares
+const LEGACY_CORNER_RATIO = 0.09;
+
+const ADAPTIVE_ICON_XML = `<?xml version="1.0" encoding="utf-8"?>
+<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">
+    <background android:drawable="@mipmap/ic_launcher_background" />
+    <foreground android:drawable="@mipmap/ic_launcher_foreground" />
+    <monochrome android:drawable="@mipmap/ic_launcher_monochrome" />
+</adaptive-icon>
+`;
+
+interface ExportDocument {
+  layers: Layer[];
+  background: BackgroundConfig;
+  lightAngle: number;
+}
+
+/**
+ * Renders the adaptive icon layers and legacy icons at every mipmap density and
+ * packs them as an Android `res/` tree into a zip.
+ */
+export async function buildAndroidIcon(doc: ExportDocument): Promise<Blob> {
+  const base = {
+    layers: doc.layers,
+    background: doc.background,
+    lightAngle: doc.lightAngle,
+    appearanceMode: 'default' as const,
+    shape: 'square' as const,
+  };
+  // 108dp masters: the artwork (1024px = 72dp) centred in a 1536px layer
+  const layerSize = Math.round(MASTER_SIZE * ADAPTIVE_DP / VIEWPORT_DP);
+  const background = await renderMaster({ ...base, layers: [] }, layerSize);
+  const foreground = padToLayer(await renderMaster({ ...base, omitBackground: true }), layerSize);
+  const monochrome = silhouette(padToLayer(
+    await renderMaster({ ...base, layers: doc.layers.map(flatContent), omitBackground: true }),
+    layerSize,
+  ));
+
+  // What the legacy icons show: both layers, cropped to the viewport
+  const flattened = document.createElement('canvas');
+  flattened.width = flattened.height = MASTER_SIZE;
+  const fc = flattened.getContext('2d')!;
+  const inset = (layerSize - MASTER_SIZE) / 2;
+  fc.drawImage(background, -inset, -inset);
+  fc.drawImage(foreground, -inset, -inset);
+
+  const files: Zippable = {};
+  for (const [density, scale] of DENSITIES) {
+    const dir = `res/mipmap-${density}`;
+    const px = Math.round(ADAPTIVE_DP * scale);
+    files[`${dir}/ic_launcher_background.png`] = await canvasToBytes(resizeCanvas(background, px));
+    files[`${dir}/ic_launcher_foreground.png`] = await canvasToBytes(resizeCanvas(foreground, px));
+    files[`${dir}/ic_launcher_monochrome.png`] = await canvasToBytes(resizeCanvas(monochrome, px));
+
+    const legacy = resizeCanvas(flattened, Math.round(LEGACY_DP * scale));
+    files[`${dir}/ic_launcher.png`] = await canvasToBytes(clipLegacy(legacy, 'square'));
+    files[`${dir}/ic_launcher_round.png`] = await canvasToBytes(clipLegacy(legacy, 'round'));
+  }
+
+  const xml = new TextEncoder().encode(ADAPTIVE_ICON_XML);
+  files['res/mipmap-anydpi-v26/ic_launcher.xml'] = xml;
+  files['res/mipmap-anydpi-v26/ic_launcher_round.xml'] = xml;
+  // Google Play listing icon: full-bleed square, Play applies its own mask
+  files['ic_launcher-playstore.png'] = await canvasToBytes(resizeCanvas(flattened, PLAY_STORE_SIZE));
+
+  // PNGs are already compressed
+  return zipFiles(files, 0);
+}
+
+/**
+ * Exports the current document and downloads `<name>-android.zip`.
+ */
+export async function exportAndroidIcon() {
+  const name = $iconName.get();
+  const blob = await buildAndroidIcon({
+    layers: $layers.get(),
+    background: $background.get(),
+    lightAngle: $lightAngle.get(),
+  });
+  downloadBlob(blob, `${sanitizeFileName(name) || 'Icon'}-android.zip`);
+}
+
+/** A layer drawn as plain, fully opaque content — no glass pipeline. */
+function flatContent(layer: Layer): Layer {
+  return {
+    ...layer,
+    opacity: 100,
+    blendMode: 'normal',
+    liquidGlass: { ...layer.liquidGlass, enabled: false },
+  };
+}
+
+function padToLayer(artwork: HTMLCanvasElement, layerSize: number): HTMLCanvasElement {
+  const out = document.createElement('canvas');
+  out.width = out.height = layerSize;
+  const inset = (layerSize - artwork.width) / 2;
+  out.getContext('2d')!.drawImage(artwork, inset, inset);
+  return out;
+}
+
+function silhouette(source: HTMLCanvasElement): HTMLCanvasElement {
+  const out = document.createElement('canvas');
+  out.width = source.width;
+  out.height = source.height;
+  const oc = out.getContext('2d')!;
+  oc.drawImage(source, 0, 0);
+  oc.globalCompositeOperation = 'source-in';
+  oc.fillStyle = '#ffffff';
+  oc.fillRect(0, 0, out.width, out.height);
+  return out;
+}
+
+function clipLegacy(source: HTMLCanvasElement, shape: 'square' | 'round'): HTMLCanvasElement {
+  const size = source.width;
+  const out = document.createElement('canvas');
+  out.width = out.height = size;
+  const oc = out.getContext('2d')!;
+  oc.beginPath();
+  if (shape === 'round') oc.arc(size / 2, size / 2, size / 2, 0, Math.PI * 2);
+  else oc.roundRect(0, 0, size, size, size * LEGACY_CORNER_RATIO);
+  oc.clip();
+  oc.drawImage(source, 0, 0);
+  return out;
+}
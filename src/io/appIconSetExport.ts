@@ -0,0 +1,184 @@
+import type { Zippable } from 'fflate';
+import { $layers, $background, $iconName } from '../store/iconStore';
+import { $lightAngle } from '../store/uiStore';
+import type { AppearanceMode, BackgroundConfig, Layer } from '../types/index';
+import { MASTER_SIZE, renderMaster, resizeCanvas, canvasToBytes } from './rasterize';
+import { zipFiles, downloadBlob, sanitizeFileName } from './download';
+
+// ─── Xcode AppIcon.appiconset ─────────────────────────────────────────────────
+// The pre-Xcode 15 asset catalog layout: one PNG per idiom / size / scale,
+// described by Contents.json. iPhone, iPad and the App Store icon also get
+// Dark and Tinted variants (iOS 18+ `appearances`), rendered from our Dark and
+// Clear appearance modes.
+//
+// iOS and watchOS apply their own mask, so those icons are rendered square and
+// unmasked. Mac icons keep their shape: the squircle sits in the standard
+// 824pt grid inside the 1024pt canvas.
+
+type Idiom = 'iphone' | 'ipad' | 'ios-marketing' | 'mac' | 'watch' | 'watch-marketing';
+type Variant = 'any' | 'dark' | 'tinted';
+
+interface AppIconSlot {
+  idiom: Idiom;
+  /** Size in points */
+  size: number;
+  scale: 1 | 2 | 3;
+  role?: 'notificationCenter' | 'companionSettings' | 'appLauncher' | 'quickLook';
+  subtype?: string;
+}
+
+const IOS_SLOTS: AppIconSlot[] = [
+  { idiom: 'iphone', size: 20, scale: 2 },
+  { idiom: 'iphone', size: 20, scale: 3 },
+  { idiom: 'iphone', size: 29, scale: 2 },
+  { idiom: 'iphone', size: 29, scale: 3 },
+  { idiom: 'iphone', size: 40, scale: 2 },
+  { idiom: 'iphone', size: 40, scale: 3 },
+  { idiom: 'iphone', size: 60, scale: 2 },
+  { idiom: 'iphone', size: 60, scale: 3 },
+  { idiom: 'ipad', size: 20, scale: 1 },
+  { idiom: 'ipad', size: 20, scale: 2 },
+  { idiom: 'ipad', size: 29, scale: 1 },
+  { idiom: 'ipad', size: 29, scale: 2 },
+  { idiom: 'ipad', size: 40, scale: 1 },
+  { idiom: 'ipad', size: 40, scale: 2 },
+  { idiom: 'ipad', size: 76, scale: 1 },
+  { idiom: 'ipad', size: 76, scale: 2 },
+  { idiom: 'ipad', size: 83.5, scale: 2 },
+  { idiom: 'ios-marketing', size: 1024, scale: 1 },
+];
+
+const MAC_SLOTS: AppIconSlot[] = [16, 32, 128, 256, 512].flatMap((size) => [
+  { idiom: 'mac' as const, size, scale: 1 as const },
+  { idiom: 'mac' as const, size, scale: 2 as const },
+]);
+
+const WATCH_SLOTS: AppIconSlot[] = [
+  { idiom: 'watch', size: 24, scale: 2, role: 'notificationCenter', subtype: '38mm' },
+  { idiom: 'watch', size: 27.5, scale: 2, role: 'notificationCenter', subtype: '42mm' },
+  { idiom: 'watch', size: 33, scale: 2, role: 'notificationCenter', subtype: '45mm' },
+  { idiom: 'watch', size: 29, scale: 2, role: 'companionSettings' },
+  { idiom: 'watch', size: 29, scale: 3, role: 'companionSettings' },
+  { idiom: 'watch', size: 40, scale: 2, role: 'appLauncher', subtype: '38mm' },
+  { idiom: 'watch', size: 44, scale: 2, role: 'appLauncher', subtype: '40mm' },
+  { idiom: 'watch', size: 46, scale: 2, role: 'appLauncher', subtype: '41mm' },
+  { idiom: 'watch', size: 50, scale: 2, role: 'appLauncher', subtype: '44mm' },
+  { idiom: 'watch', size: 51, scale: 2, role: 'appLauncher', subtype: '45mm' },
+  { idiom: 'watch', size: 54, scale: 2, role: 'appLauncher', subtype: '49mm' },
+  { idiom: 'watch', size: 86, scale: 2, role: 'quickLook', subtype: '38mm' },
+  { idiom: 'watch', size: 98, scale: 2, role: 'quickLook', subtype: '42mm' },
+  { idiom: 'watch', size: 108, scale: 2, role: 'quickLook', subtype: '44mm' },
+  { idiom: 'watch', size: 117, scale: 2, role: 'quickLook', subtype: '45mm' },
+  { idiom: 'watch', size: 129, scale: 2, role: 'quickLook', subtype: '49mm' },
+  { idiom: 'watch-marketing', size: 1024, scale: 1 },
+];
+
+// Idioms that accept Dark / Tinted appearance variants
+const VARIANT_IDIOMS = new Set<Idiom>(['iphone', 'ipad', 'ios-marketing']);
+const VARIANT_MODES: Record<Variant, AppearanceMode> = { any: 'default', dark: 'dark', tinted: 'clear' };
+
+// macOS icon grid: 824pt artwork centred in the 1024pt canvas
+const MAC_ARTWORK_RATIO = 824 / 1024;
+
+interface ContentsImage {
+  filename: string;
+  idiom: Idiom;
+  size: string;
+  scale: string;
+  role?: string;
+  subtype?: string;
+  appearances?: { appearance: 'luminosity'; value: 'dark' | 'tinted' }[];
+}
+
+interface ExportDocument {
+  layers: Layer[];
+  background: BackgroundConfig;
+  lightAngle: number;
+}
+
+/**
+ * Renders every slot and packs `AppIcon.appiconset/` (PNGs + Contents.json) into a zip.
+ */
+export async function buildAppIconSet(doc: ExportDocument): Promise<Blob> {
+  const files: Zippable = {};
+  const images: ContentsImage[] = [];
+  const masters = new Map<string, HTMLCanvasElement>();
+  const written = new Set<string>();
+
+  // One master per (family, variant) — every size is downscaled from it
+  const getMaster = async (family: 'square' | 'mac', variant: Variant) => {
+    const key = `${family}:${variant}`;
+    let master = masters.get(key);
+    if (!master) {
+      const rendered = await renderMaster({
+        layers: doc.layers,
+        background: doc.background,
+        lightAngle: doc.lightAngle,
+        appearanceMode: VARIANT_MODES[variant],
+        shape: family === 'square' ? 'square' : 'squircle',
+      });
+      master = family === 'mac' ? padForMac(rendered) : rendered;
+      masters.set(key, master);
+    }
+    return master;
+  };
+
+  const slots = [...IOS_SLOTS, ...MAC_SLOTS, ...WATCH_SLOTS];
+  for (const slot of slots) {
+    const variants: Variant[] = VARIANT_IDIOMS.has(slot.idiom) ? ['any', 'dark', 'tinted'] : ['any'];
+    const family = slot.idiom === 'mac' ? 'mac' : 'square';
+    for (const variant of variants) {
+      const pixels = Math.round(slot.size * slot.scale);
+      const filename = `AppIcon-${family === 'mac' ? 'mac-' : ''}${pixels}${variant === 'any' ? '' : `-${variant}`}.png`;
+      // Slots with the same pixel size share one file (e.g. 40pt@2x and 80pt@1x)
+      if (!written.has(filename)) {
+        const canvas = resizeCanvas(await getMaster(family, variant), pixels);
+        files[`AppIcon.appiconset/${filename}`] = await canvasToBytes(canvas);
+        written.add(filename);
+      }
+      images.push(contentsEntry(slot, filename, variant));
+    }
+  }
+
+  const contents = { images, info: { author: 'xcode', version: 1 } };
+  files['AppIcon.appiconset/Contents.json'] = new TextEncoder().encode(JSON.stringify(contents, null, 2));
+  // PNGs are already compressed
+  return zipFiles(files, 0);
+}
+
+/**
+ * Exports the current document and downloads `<name>-AppIcon.appiconset.zip`.
+ */
+export async function exportAppIconSet() {
+  const name = $iconName.get();
+  const blob = await buildAppIconSet({
+    layers: $layers.get(),
+    background: $background.get(),
+    lightAngle: $lightAngle.get(),
+  });
+  downloadBlob(blob, `${sanitizeFileName(name) || 'Icon'}-AppIcon.appiconset.zip`);
+}
+
+function contentsEntry(slot: AppIconSlot, filename: string, variant: Variant): ContentsImage {
+  const entry: ContentsImage = {
+    filename,
+    idiom: slot.idiom,
+    size: `${slot.size}x${slot.size}`,
+    scale: `${slot.scale}x`,
+  };
+  if (slot.role) entry.role = slot.role;
+  if (slot.subtype) entry.subtype = slot.subtype;
+  if (variant !== 'any') entry.appearances = [{ appearance: 'luminosity', value: variant }];
+  return entry;
+}
+
+function padForMac(rendered: HTMLCanvasElement): HTMLCanvasElement {
+  const out = document.createElement('canvas');
+  out.width = out.height = MASTER_SIZE;
+  const artwork = Math.round(MASTER_SIZE * MAC_ARTWORK_RATIO);
+  const inset = (MASTER_SIZE - artwork) / 2;
+  const oc = out.getContext('2d')!;
+  oc.imageSmoothingQuality = 'high';
+  oc.drawImage(rendered, inset, inset, artwork, artwork);
+  return out;
+}
@@ -0,0 +1,116 @@
+import { unzip } from 'fflate';
+
+// ─── Bundle file maps ─────────────────────────────────────────────────────────
+// Packages (.icon bundles, zips, dropped folders) are read into a flat map of
+// forward-slash relative paths → Blob, so importers never care where the bytes
+// came from.
+
+export type BundleFiles = Map<string, Blob>;
+
+/**
+ * Extracts every file of a zip archive. Directory entries and macOS resource
+ * forks (__MACOSX/, ._*) are skipped.
+ */
+export async function readZip(zip: Blob): Promise<BundleFiles> {
+  const data = new Uint8Array(await zip.arrayBuffer());
+  const entries = await new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+    unzip(data, (err, result) => (err ? reject(err) : resolve(result)));
+  });
+  const files: BundleFiles = new Map();
+  for (const [path, bytes] of Object.entries(entries)) {
+    if (path.endsWith('/') || isJunkPath(path)) continue;
+    // fflate always allocates plain ArrayBuffers
+    files.set(path, new Blob([bytes as Uint8Array<ArrayBuffer>], { type: mimeTypeForPath(path) }));
+  }
+  return files;
+}
+
+/**
+ * Reads a dropped folder (e.g. a macOS `.icon` package) through the
+ * FileSystem entry API. Returns null when the drop contains no directory.
+ */
+export async function readDroppedDirectory(dt: DataTransfer): Promise<{ name: string; files: BundleFiles } | null> {
+  const entries = Array.from(dt.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((e): e is FileSystemEntry => !!e);
+  const dir = entries.find((e) => e.isDirectory) as FileSystemDirectoryEntry | undefined;
+  if (!dir) return null;
+
+  const files: BundleFiles = new Map();
+  await walkDirectory(dir, '', files);
+  return { name: dir.name, files };
+}
+
+async function walkDirectory(dir: FileSystemDirectoryEntry, prefix: string, files: BundleFiles): Promise<void> {
+  const reader = dir.createReader();
+  // readEntries returns results in batches — keep reading until empty
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    for (const entry of batch) {
+      const path = `${prefix}${entry.name}`;
+      if (isJunkPath(path)) continue;
+      if (entry.isDirectory) {
+        await walkDirectory(entry as FileSystemDirectoryEntry, `${path}/`, files);
+      } else {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        files.set(path, file);
+      }
+    }
+  }
+}
+
+function isJunkPath(path: string): boolean {
+  return path.startsWith('__MACOSX/') || /(^|\/)(\._[^/]*|\.DS_Store)$/.test(path);
+}
+
+export function mimeTypeForPath(path: string): string {
+  const ext = path.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'svg': return 'image/svg+xml';
+    case 'png': return 'image/png';
+    case 'jpg':
+    case 'jpeg': return 'image/jpeg';
+    case 'webp': return 'image/webp';
+    case 'json': return 'application/json';
+    default: return 'application/octet-stream';
+  }
+}
+
+export function extensionForMimeType(type: string): string | null {
+  switch (type) {
+    case 'image/svg+xml': return 'svg';
+    case 'image/png': return 'png';
+    case 'image/jpeg': return 'jpg';
+    case 'image/webp': return 'webp';
+    default: return null;
+  }
+}
+
+export function basename(path: string): string {
+  return path.split('/').pop() ?? path;
+}
+
+/** Intrinsic size of an SVG (width/height or viewBox) or raster asset, in points. */
+export async function measureImageAsset(blob: Blob, name: string): Promise<{ width: number; height: number } | null> {
+  try {
+    if (/\.svg$/i.test(name)) {
+      const text = await blob.text();
+      const svg = new DOMParser().parseFromString(text, 'image/svg+xml').documentElement;
+      const w = parseFloat(svg.getAttribute('width') ?? '');
+      const h = parseFloat(svg.getAttribute('height') ?? '');
+      if (w > 0 && h > 0) return { width: w, height: h };
+      const vb = (svg.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(parseFloat);
+      if (vb.length === 4 && vb[2] > 0 && vb[3] > 0) return { width: vb[2], height: vb[3] };
+      return null;
+    }
+    const bitmap = await createImageBitmap(blob);
+    // @2x / @3x rasters are authored at that multiple of their point size
+    const density = parseFloat(/@(\d)x\./i.exec(name)?.[1] ?? '1');
+    const dims = { width: bitmap.width / density, height: bitmap.height / density };
+    bitmap.close();
+    return dims;
+  } catch {
+    return null;
+  }
+}
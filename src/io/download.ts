@@ -0,0 +1,33 @@
+import { zip } from 'fflate';
+import type { Zippable } from 'fflate';
+
+// ─── Output helpers shared by the exporters ───────────────────────────────────
+
+/**
+ * Zips a path → bytes map off the main thread (fflate uses workers when it can).
+ */
+export async function zipFiles(files: Zippable, level: 0 | 6 = 6): Promise<Blob> {
+  const data = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, { level }, (err, out) => (err ? reject(err) : resolve(out)));
+  });
+  // fflate always allocates plain ArrayBuffers
+  return new Blob([data as Uint8Array<ArrayBuffer>], { type: 'application/zip' });
+}
+
+/**
+ * Saves a blob through a temporary download link.
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Give the browser a moment to start the download before releasing the URL
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Strips characters that are not allowed in file names on common platforms. */
+export function sanitizeFileName(name: string): string {
+  return name.trim().replace(/[\\/:*?"<>|]+/g, '-');
+}
@@ -0,0 +1,320 @@
+import type { Zippable } from 'fflate';
+import { $layers, $background, $iconName, bgColorsFromHueTint } from '../store/iconStore';
+import { getLayerAsset } from '../store/persistence';
+import { $bundleReport } from '../store/uiStore';
+import type { Layer, BackgroundConfig, FillConfig, AppearanceMode, AppearanceOverride, LiquidGlassConfig } from '../types/index';
+import { measureImageAsset, extensionForMimeType } from './bundleFiles';
+import { zipFiles, downloadBlob, sanitizeFileName } from './download';
+import { ICON_CANVAS_POINTS, formatIconColor, angleToOrientation } from './iconBundleFormat';
+import type {
+  IconJson,
+  IconJsonFill,
+  IconJsonGroup,
+  IconJsonLayer,
+  IconJsonPosition,
+  IconJsonSpecialization,
+  IconJsonAppearance,
+} from './iconBundleFormat';
+
+// ─── Apple `.icon` exporter ───────────────────────────────────────────────────
+// Writes the document as an Icon Composer package, zipped:
+//   <name>.icon/icon.json
+//   <name>.icon/Assets/<original files>
+// Icon Composer requires every layer to live in a group, so root-level layers
+// are each wrapped in a group of their own. Glass settings are group-level in
+// icon.json — a group takes them from its own glass when that is on, otherwise
+// from its first glass-enabled child.
+// Groups nest only one level deep there: layers of nested groups are listed
+// in their top-level group (hidden nested groups are left out), with the
+// nested group's opacity multiplied into theirs — exact unless they overlap.
+// What a nested group sets beyond that is listed in `unmapped`.
+
+const APPEARANCE_MAP: Partial<Record<AppearanceMode, IconJsonAppearance>> = { dark: 'dark', clear: 'tinted' };
+
+interface ExportDocument {
+  name: string;
+  layers: Layer[];
+  background: BackgroundConfig;
+}
+
+/**
+ * Builds a zipped `.icon` package for the given document, together with the
+ * settings it could not carry over.
+ */
+export async function buildIconBundle(doc: ExportDocument): Promise<{ blob: Blob; unmapped: string[] }> {
+  const packageName = `${sanitizeFileName(doc.name) || 'Icon'}.icon`;
+  const assets = new Map<string, Uint8Array>();
+  const usedNames = new Set<string>();
+  const unmapped: string[] = [];
+
+  const byOrderDesc = (a: Layer, b: Layer) => b.order - a.order;
+  const roots = doc.layers.filter((l) => l.parentId === null).sort(byOrderDesc);
+
+  // icon.json lists groups and layers top-first
+  const groups: IconJsonGroup[] = [];
+  for (const root of roots) {
+    if (root.type === 'group') {
+      const children = descendantLayers(doc.layers, root.id, unmapped);
+      groups.push(await exportGroup(root, children, assets, usedNames));
+    } else {
+      // Wrap a loose layer in an unnamed group — opacity/visibility stay on the layer
+      groups.push(await exportGroup(null, [root], assets, usedNames));
+    }
+  }
+
+  const json: IconJson = {
+    fill: exportBackground(doc.background),
+    groups,
+    'supported-platforms': { squares: 'shared' },
+  };
+
+  const files: Zippable = {
+    [`${packageName}/icon.json`]: new TextEncoder().encode(JSON.stringify(json, null, 2)),
+  };
+  for (const [name, bytes] of assets) files[`${packageName}/Assets/${name}`] = bytes;
+
+  return { blob: await zipFiles(files), unmapped };
+}
+
+/**
+ * Exports the current document and downloads it as `<name>.icon.zip`, telling
+ * the user about anything that could not be carried over.
+ */
+export async function exportIconBundle() {
+  const name = $iconName.get();
+  const { blob, unmapped } = await buildIconBundle({ name, layers: $layers.get(), background: $background.get() });
+  downloadBlob(blob, `${sanitizeFileName(name) || 'Icon'}.icon.zip`);
+  $bundleReport.set(unmapped.length > 0 ? { title: `Exported “${name}”`, unmapped } : null);
+}
+
+// ─── Mapping helpers ──────────────────────────────────────────────────────────
+
+/**
+ * Layers under `groupId` at any depth, top-first, skipping hidden subgroups.
+ * Nested groups are flattened away: their opacity moves onto their layers.
+ */
+function descendantLayers(layers: Layer[], groupId: string, unmapped: string[], visited = new Set<string>()): Layer[] {
+  visited.add(groupId);
+  const out: Layer[] = [];
+  const children = layers.filter((l) => l.parentId === groupId).sort((a, b) => b.order - a.order);
+  for (const child of children) {
+    if (child.type === 'layer') out.push(child);
+    else if (child.visible && !visited.has(child.id)) {
+      reportNestedGroup(child, unmapped);
+      out.push(...descendantLayers(layers, child.id, unmapped, visited).map((l) => withGroupOpacity(l, child)));
+    }
+  }
+  return out;
+}
+
+/** Multiplies a flattened group's opacity, per appearance too, into `layer`'s. */
+function withGroupOpacity(layer: Layer, group: Layer): Layer {
+  const times = (a: number, b: number) => Math.round(a * b) / 100;
+  const appearances = { ...layer.appearances };
+  const modes = new Set([...Object.keys(layer.appearances ?? {}), ...Object.keys(group.appearances ?? {})]);
+  for (const mode of modes as Set<AppearanceMode>) {
+    const own = layer.appearances?.[mode]?.opacity;
+    const parent = group.appearances?.[mode]?.opacity;
+    if (own === undefined && parent === undefined) continue;
+    appearances[mode] = { ...appearances[mode], opacity: times(own ?? layer.opacity, parent ?? group.opacity) };
+  }
+  return { ...layer, opacity: times(layer.opacity, group.opacity), appearances };
+}
+
+/** Lists what a nested group sets that cannot move onto its layers. */
+function reportNestedGroup(group: Layer, unmapped: string[]) {
+  const label = `Nested group "${group.name}"`;
+  if (group.blendMode !== 'normal') unmapped.push(`${label}: blend mode "${group.blendMode}"`);
+  if (group.liquidGlass.enabled) unmapped.push(`${label}: Liquid Glass`);
+  if (Object.values(group.appearances ?? {}).some((o) => o?.visible !== undefined)) {
+    unmapped.push(`${label}: per-appearance visibility`);
+  }
+}
+
+async function exportGroup(
+  group: Layer | null,
+  children: Layer[],
+  assets: Map<string, Uint8Array>,
+  usedNames: Set<string>,
+): Promise<IconJsonGroup> {
+  const out: IconJsonGroup = {};
+  if (group) {
+    out.name = group.name;
+    if (!group.visible) out.hidden = true;
+    if (group.opacity !== 100) out.opacity = group.opacity / 100;
+  }
+
+  const glassSource = group?.liquidGlass.enabled
+    ? group
+    : children.find((c) => c.liquidGlass.enabled) ?? children[0];
+  if (glassSource) Object.assign(out, exportGlass(glassSource));
+  // Our renderer lights every layer on its own
+  out.lighting = 'individual';
+
+  const layers: IconJsonLayer[] = [];
+  for (const child of children) layers.push(await exportLayer(child, assets, usedNames));
+  out.layers = layers;
+  return out;
+}
+
+async function exportLayer(layer: Layer, assets: Map<string, Uint8Array>, usedNames: Set<string>): Promise<IconJsonLayer> {
+  const out: IconJsonLayer = { name: layer.name };
+  const { visible, opacity, fill } = specializationsOf(layer);
+
+  let fitScale = 1;
+  const blob = layer.type === 'layer' ? await getLayerAsset(layer) : null;
+  if (blob) {
+    const fileName = uniqueAssetName(layer, blob, usedNames);
+    assets.set(fileName, new Uint8Array(await blob.arrayBuffer()));
+    out['image-name'] = fileName;
+    // The renderer fits the image to the canvas; Icon Composer draws it at its
+    // intrinsic point size. Fold the difference into the layer scale.
+    const dims = await measureImageAsset(blob, fileName);
+    if (dims) fitScale = ICON_CANVAS_POINTS / Math.max(dims.width, dims.height);
+  }
+
+  writeSpecialized(out, 'hidden', !layer.visible, visible.map((v) => ({ ...v, value: !v.value })), false);
+  writeSpecialized(out, 'opacity', layer.opacity / 100, opacity.map((v) => ({ ...v, value: v.value / 100 })), 1);
+  writeSpecialized(out, 'fill', exportFill(layer.fill), fill.map((v) => ({ ...v, value: exportFill(v.value) })), undefined);
+  if (layer.blendMode !== 'normal') out['blend-mode'] = layer.blendMode;
+  out.glass = layer.liquidGlass.enabled;
+  out.position = exportPosition(layer, fitScale);
+  return out;
+}
+
+// Icon Composer positions are translate + uniform scale only — rotation,
+// per-axis scale and flips are not carried over
+function exportPosition(layer: Layer, fitScale: number): IconJsonPosition {
+  const round = (v: number) => Math.round(v * 1000) / 1000;
+  return {
+    scale: round((layer.layout.scale / 100) * fitScale),
+    'translation-in-points': [
+      round((layer.layout.x / 100) * ICON_CANVAS_POINTS),
+      round((layer.layout.y / 100) * ICON_CANVAS_POINTS),
+    ],
+  };
+}
+
+function exportGlass(layer: Layer): Partial<IconJsonGroup> {
+  const toJson = (lg: Partial<LiquidGlassConfig>): Partial<IconJsonGroup> => {
+    const out: Partial<IconJsonGroup> = {};
+    if (lg.specular !== undefined) out.specular = lg.specular;
+    if (lg.blur) out['blur-material'] = lg.blur.enabled ? lg.blur.value / 100 : null;
+    if (lg.shadow) {
+      out.shadow = {
+        kind: !lg.shadow.enabled ? 'none' : lg.shadow.type === 'chromatic' ? 'layer-color' : 'neutral',
+        opacity: lg.shadow.value / 100,
+      };
+    }
+    if (lg.translucency) out.translucency = { enabled: lg.translucency.enabled, value: lg.translucency.value / 100 };
+    return out;
+  };
+
+  const out = toJson(layer.liquidGlass);
+  for (const [mode, appearance] of Object.entries(APPEARANCE_MAP) as [AppearanceMode, IconJsonAppearance][]) {
+    const override = layer.appearances?.[mode]?.liquidGlass;
+    if (!override) continue;
+    for (const [key, value] of Object.entries(toJson(override))) {
+      const specKey = `${key}-specializations`;
+      const specs = (out[specKey] as IconJsonSpecialization<unknown>[] | undefined) ?? [{ value: out[key] }];
+      specs.push({ appearance, value });
+      out[specKey] = specs;
+      delete out[key];
+    }
+  }
+  return out;
+}
+
+/** Collects a layer's per-appearance overrides as icon.json specializations. */
+function specializationsOf(layer: Layer) {
+  const collect = <K extends keyof AppearanceOverride>(key: K) => {
+    const out: { appearance: IconJsonAppearance; value: NonNullable<AppearanceOverride[K]> }[] = [];
+    for (const [mode, appearance] of Object.entries(APPEARANCE_MAP) as [AppearanceMode, IconJsonAppearance][]) {
+      const value = layer.appearances?.[mode]?.[key];
+      if (value !== undefined) out.push({ appearance, value: value as NonNullable<AppearanceOverride[K]> });
+    }
+    return out;
+  };
+  return { visible: collect('visible'), opacity: collect('opacity'), fill: collect('fill') };
+}
+
+/**
+ * Writes `key` directly, or as `<key>-specializations` when any appearance
+ * overrides it. A base equal to `omitIf` is left out (the icon.json default).
+ */
+function writeSpecialized<T>(
+  node: Record<string, unknown>,
+  key: string,
+  base: T | undefined,
+  overrides: { appearance: IconJsonAppearance; value: T | undefined }[],
+  omitIf: T | undefined,
+) {
+  const defined = overrides.filter((o) => o.value !== undefined);
+  if (defined.length === 0) {
+    if (base !== undefined && base !== omitIf) node[key] = base;
+    return;
+  }
+  const specs: IconJsonSpecialization<T | undefined>[] = [];
+  if (base !== undefined) specs.push({ value: base });
+  specs.push(...defined);
+  node[`${key}-specializations`] = specs;
+}
+
+function exportFill(fill: FillConfig): IconJsonFill | undefined {
+  if (fill.type === 'solid') return { solid: formatIconColor(cssColorToHex(fill.color)) };
+  if (fill.type === 'gradient' && fill.stops.length > 0) {
+    // icon.json gradients have exactly two colors — keep the outermost stops
+    const stops = [...fill.stops].sort((a, b) => a.offset - b.offset);
+    return {
+      'linear-gradient': [
+        formatIconColor(cssColorToHex(stops[0].color)),
+        formatIconColor(cssColorToHex(stops[stops.length - 1].color)),
+      ],
+      orientation: angleToOrientation(fill.angle),
+    };
+  }
+  return undefined;
+}
+
+function exportBackground(bg: BackgroundConfig): IconJsonFill {
+  if (bg.type === 'solid' && bg.color) return { solid: formatIconColor(cssColorToHex(bg.color)) };
+  const colors: string[] =
+    bg.bgType === 'custom' && bg.stops && bg.stops.length > 0
+      ? [...bg.stops].sort((a, b) => a.offset - b.offset).map((s) => s.color)
+      : bg.colors ?? bgColorsFromHueTint(bg.hue ?? 220, bg.tint ?? 20, bg.brightness ?? 100);
+  return {
+    'linear-gradient': [
+      formatIconColor(cssColorToHex(colors[0])),
+      formatIconColor(cssColorToHex(colors[colors.length - 1])),
+    ],
+    orientation: angleToOrientation(bg.angle ?? 90),
+  };
+}
+
+// ─── Assets ───────────────────────────────────────────────────────────────────
+
+function uniqueAssetName(layer: Layer, blob: Blob, usedNames: Set<string>): string {
+  const source = sanitizeFileName(layer.sourceFile ?? layer.name) || 'layer';
+  const hasExt = /\.[a-z0-9]+$/i.test(source);
+  const ext = extensionForMimeType(blob.type) ?? (hasExt ? source.split('.').pop()! : 'png');
+  const stem = hasExt ? source.replace(/\.[a-z0-9]+$/i, '') : source;
+  let name = `${stem}.${ext}`;
+  for (let i = 2; usedNames.has(name.toLowerCase()); i++) name = `${stem}-${i}.${ext}`;
+  usedNames.add(name.toLowerCase());
+  return name;
+}
+
+// Background colors may be any CSS color (hsl() presets) — let canvas normalize
+let colorCtx: CanvasRenderingContext2D | null = null;
+function cssColorToHex(color: string): string {
+  if (/^#[0-9a-f]{6}$/i.test(color)) return color;
+  colorCtx ??= document.createElement('canvas').getContext('2d');
+  if (!colorCtx) return '#000000';
+  colorCtx.fillStyle = '#000000';
+  colorCtx.fillStyle = color;
+  const normalized = String(colorCtx.fillStyle);
+  if (normalized.startsWith('#')) return normalized;
+  const m = /rgba?\(\s*(\d+),\s*(\d+),\s*(\d+)/.exec(normalized);
+  if (!m) return '#000000';
+  return `#${[m[1], m[2], m[3]].map((v) => Number(v).toString(16).padStart(2, '0')).join('')}`;
+}
@@ -0,0 +1,168 @@
+// ─── Apple Icon Composer `.icon` format ───────────────────────────────────────
+//
+// A `.icon` package is a folder:
+//   Foo.icon/
+//     icon.json     — document description (groups → layers, fills, glass)
+//     Assets/       — the source SVG / PNG files referenced by `image-name`
+//
+// Only the subset of icon.json we read or write is typed here. Properties can
+// be given directly (`"fill": …`) or per appearance through a parallel
+// `"<key>-specializations": [{ "appearance"?: "dark" | "tinted", "value": … }]`
+// array, where the entry without `appearance` is the default.
+
+import type { ColorStop } from '../types/index';
+
+/** Canvas size of an Icon Composer document, in points. */
+export const ICON_CANVAS_POINTS = 1024;
+
+export type IconJsonAppearance = 'dark' | 'tinted';
+
+export interface IconJsonSpecialization<T> {
+  appearance?: IconJsonAppearance;
+  value: T;
+}
+
+export type IconJsonFill =
+  | 'automatic'
+  | 'system-light'
+  | 'system-dark'
+  | { solid: string }
+  | { 'automatic-gradient': string }
+  | {
+      'linear-gradient': [string, string];
+      orientation?: { start: { x: number; y: number }; stop: { x: number; y: number } };
+    };
+
+export interface IconJsonPosition {
+  scale?: number;
+  'translation-in-points'?: [number, number];
+}
+
+export interface IconJsonShadow {
+  kind: 'neutral' | 'layer-color' | 'none';
+  opacity: number; // 0–1
+}
+
+export interface IconJsonTranslucency {
+  enabled: boolean;
+  value: number; // 0–1
+}
+
+export interface IconJsonLayer {
+  name?: string;
+  'image-name'?: string;
+  hidden?: boolean;
+  glass?: boolean;
+  opacity?: number; // 0–1
+  'blend-mode'?: string;
+  fill?: IconJsonFill;
+  position?: IconJsonPosition;
+  [key: string]: unknown;
+}
+
+export interface IconJsonGroup {
+  name?: string;
+  hidden?: boolean;
+  layers?: IconJsonLayer[];
+  opacity?: number;
+  'blend-mode'?: string;
+  lighting?: 'combined' | 'individual';
+  specular?: boolean;
+  'blur-material'?: number | null;
+  shadow?: IconJsonShadow;
+  translucency?: IconJsonTranslucency;
+  position?: IconJsonPosition;
+  [key: string]: unknown;
+}
+
+export interface IconJson {
+  fill?: IconJsonFill;
+  groups?: IconJsonGroup[];
+  'supported-platforms'?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * Reads a property together with its specializations.
+ * Returns the default value plus any dark / tinted overrides.
+ */
+export function readSpecialized<T>(
+  node: Record<string, unknown>,
+  key: string,
+): { base?: T; dark?: T; tinted?: T } {
+  const out: { base?: T; dark?: T; tinted?: T } = {};
+  if (key in node) out.base = node[key] as T;
+  const specs = node[`${key}-specializations`];
+  if (Array.isArray(specs)) {
+    for (const spec of specs as IconJsonSpecialization<T>[]) {
+      if (!spec || typeof spec !== 'object') continue;
+      if (spec.appearance === 'dark') out.dark = spec.value;
+      else if (spec.appearance === 'tinted') out.tinted = spec.value;
+      else out.base = spec.value;
+    }
+  }
+  return out;
+}
+
+// ─── Colors ───────────────────────────────────────────────────────────────────
+// icon.json colors are "<space>:<components>", e.g. "extended-srgb:0,0.53,1,1"
+// or "extended-gray:0.5,1". Our model stores #rrggbb hex.
+
+const toHexByte = (v: number) =>
+  Math.round(Math.max(0, Math.min(1, v)) * 255).toString(16).padStart(2, '0');
+
+/** Parses an icon.json color. Display-P3 is read as sRGB (slight gamut clip). */
+export function parseIconColor(value: string): { hex: string; alpha: number; space: string } | null {
+  const m = /^([a-z0-9-]+):([\d.,\s-]+)$/i.exec(value.trim());
+  if (!m) return null;
+  const space = m[1].toLowerCase();
+  const parts = m[2].split(',').map((p) => parseFloat(p));
+  if (parts.some((p) => isNaN(p))) return null;
+
+  if (space.endsWith('gray') && parts.length >= 1) {
+    const [g, a = 1] = parts;
+    return { hex: `#${toHexByte(g)}${toHexByte(g)}${toHexByte(g)}`, alpha: a, space };
+  }
+  if (parts.length >= 3) {
+    const [r, g, b, a = 1] = parts;
+    return { hex: `#${toHexByte(r)}${toHexByte(g)}${toHexByte(b)}`, alpha: a, space };
+  }
+  return null;
+}
+
+export function formatIconColor(hex: string, alpha = 1): string {
+  const h = hex.replace('#', '');
+  const full = h.length === 3 ? h.split('').map((c) => c + c).join('') : h;
+  const comp = (i: number) => (parseInt(full.slice(i, i + 2), 16) / 255).toFixed(5);
+  return `srgb:${comp(0)},${comp(2)},${comp(4)},${alpha.toFixed(5)}`;
+}
+
+/**
+ * Lightens a hex color toward white — approximates the top stop of Icon
+ * Composer's "automatic gradient", which is derived from a single color.
+ */
+export function automaticGradientStops(hex: string): ColorStop[] {
+  const h = hex.replace('#', '');
+  const mix = (i: number) => {
+    const c = parseInt(h.slice(i, i + 2), 16);
+    return Math.round(c + (255 - c) * 0.28).toString(16).padStart(2, '0');
+  };
+  return [
+    { offset: 0, color: `#${mix(0)}${mix(2)}${mix(4)}` },
+    { offset: 1, color: `#${h.toLowerCase()}` },
+  ];
+}
+
+/** Orientation (unit-square start/stop, y down) → angle in degrees (0 = →, 90 = ↓). */
+export function orientationToAngle(o: { start: { x: number; y: number }; stop: { x: number; y: number } }): number {
+  const deg = (Math.atan2(o.stop.y - o.start.y, o.stop.x - o.start.x) * 180) / Math.PI;
+  return Math.round((deg + 360) % 360);
+}
+
+export function angleToOrientation(angle: number): { start: { x: number; y: number }; stop: { x: number; y: number } } {
+  const rad = (angle * Math.PI) / 180;
+  const dx = Math.cos(rad) * 0.5;
+  const dy = Math.sin(rad) * 0.5;
+  const r = (v: number) => Math.round(v * 1000) / 1000;
+  return { start: { x: r(0.5 - dx), y: r(0.5 - dy) }, stop: { x: r(0.5 + dx), y: r(0.5 + dy) } };
+}
@@ -0,0 +1,436 @@
+import { createLayer, createGroup, bgColorsFromHueTint, replaceDocument } from '../store/iconStore';
+import { selectLayer, $bundleReport } from '../store/uiStore';
+import { transaction } from '../store/history';
+import { createDocument } from '../store/persistence';
+import type {
+  Layer,
+  BackgroundConfig,
+  BlendMode,
+  FillConfig,
+  LiquidGlassConfig,
+  AppearanceMode,
+  AppearanceOverride,
+} from '../types/index';
+import { readZip, readDroppedDirectory, basename, mimeTypeForPath, measureImageAsset } from './bundleFiles';
+import type { BundleFiles } from './bundleFiles';
+import {
+  ICON_CANVAS_POINTS,
+  readSpecialized,
+  parseIconColor,
+  automaticGradientStops,
+  orientationToAngle,
+} from './iconBundleFormat';
+
+// ─── Apple `.icon` importer ───────────────────────────────────────────────────
+// Maps an Icon Composer package onto our document model. Anything without an
+// equivalent is listed in `unmapped` so the user knows what was dropped.
+// icon.json is read as untyped JSON: every value is checked before use, and
+// one of the wrong type is reported instead of failing the import.
+
+export interface IconBundleImport {
+  name: string;
+  layers: Layer[];
+  background: BackgroundConfig;
+  unmapped: string[];
+}
+
+export class IconBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IconBundleError';
+  }
+}
+
+const BLEND_MODES: BlendMode[] = [
+  'normal', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn',
+  'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity',
+];
+
+// Keys we understand — everything else on a node is reported as unmapped
+const KNOWN_DOC_KEYS = new Set(['fill', 'groups', 'supported-platforms']);
+const KNOWN_GROUP_KEYS = new Set([
+  'name', 'hidden', 'layers', 'opacity', 'blend-mode', 'lighting', 'specular',
+  'blur-material', 'shadow', 'translucency', 'position',
+]);
+const KNOWN_LAYER_KEYS = new Set([
+  'name', 'image-name', 'hidden', 'glass', 'opacity', 'blend-mode', 'fill', 'position',
+]);
+
+const APPEARANCE_MAP: Record<'dark' | 'tinted', AppearanceMode> = { dark: 'dark', tinted: 'clear' };
+
+/**
+ * True if a dropped / picked file is named like an Icon Composer package.
+ */
+export function isIconBundleFile(file: File): boolean {
+  return /\.icon(\.zip)?$/i.test(file.name);
+}
+
+function hasIconJson(files: BundleFiles): boolean {
+  return [...files.keys()].some((p) => basename(p) === 'icon.json');
+}
+
+/**
+ * Reads a `.icon` package from a drop: either the package folder itself or a
+ * zip of it. Returns null when the drop does not contain a bundle.
+ */
+export async function importIconBundleFromDrop(dt: DataTransfer): Promise<IconBundleImport | null> {
+  // DataTransfer contents are only readable synchronously inside the drop event
+  const dropped = Array.from(dt.files);
+  const dir = await readDroppedDirectory(dt);
+  if (dir && hasIconJson(dir.files)) return importIconBundle(dir.files, dir.name);
+  const named = dropped.find(isIconBundleFile);
+  if (named) return importIconBundleFromZip(named);
+  // Any other zip is only a bundle if it holds an icon.json
+  for (const zip of dropped.filter((f) => /\.zip$/i.test(f.name))) {
+    let files: BundleFiles;
+    try {
+      files = await readZip(zip);
+    } catch {
+      continue;
+    }
+    if (hasIconJson(files)) return importIconBundle(files, zip.name);
+  }
+  return null;
+}
+
+/**
+ * Opens an imported bundle as a new library document and tells the user about
+ * anything that could not be carried over.
+ */
+export async function applyIconBundleImport(result: IconBundleImport) {
+  if (!(await createDocument())) {
+    result.layers.forEach((l) => l.blobUrl && URL.revokeObjectURL(l.blobUrl));
+    return;
+  }
+  transaction(() => replaceDocument({ name: result.name, layers: result.layers, background: result.background }));
+  selectLayer(null);
+  // Shown in the canvas view's import report panel
+  $bundleReport.set(result.unmapped.length > 0 ? { title: `Imported “${result.name}”`, unmapped: result.unmapped } : null);
+}
+
+export async function importIconBundleFromZip(file: File): Promise<IconBundleImport> {
+  let files: BundleFiles;
+  try {
+    files = await readZip(file);
+  } catch {
+    throw new IconBundleError(`"${file.name}" is not a valid zip archive.`);
+  }
+  return importIconBundle(files, file.name);
+}
+
+/**
+ * Converts the files of a `.icon` package into layers and a background.
+ * `sourceName` is the package / archive name, used for the document name.
+ */
+export async function importIconBundle(files: BundleFiles, sourceName: string): Promise<IconBundleImport> {
+  // icon.json may sit at the root or inside a single `Foo.icon/` folder
+  const jsonPath = [...files.keys()]
+    .filter((p) => basename(p) === 'icon.json')
+    .sort((a, b) => a.split('/').length - b.split('/').length)[0];
+  if (!jsonPath) throw new IconBundleError('No icon.json found — is this an Icon Composer .icon package?');
+  const root = jsonPath.slice(0, jsonPath.length - 'icon.json'.length);
+
+  let doc: unknown;
+  try {
+    doc = JSON.parse(await files.get(jsonPath)!.text());
+  } catch {
+    throw new IconBundleError('icon.json is not valid JSON.');
+  }
+  if (!isRecord(doc)) throw new IconBundleError('icon.json has an unexpected structure.');
+
+  const unmapped: string[] = [];
+  reportUnknownKeys(doc, KNOWN_DOC_KEYS, 'Document', unmapped);
+
+  const background = mapBackground(doc, unmapped);
+  const layers: Layer[] = [];
+  const groups: unknown[] = Array.isArray(doc.groups) ? doc.groups : [];
+
+  // icon.json lists groups and layers top-first; our `order` is highest-on-top
+  for (let gi = 0; gi < groups.length; gi++) {
+    const g = groups[gi];
+    if (!isRecord(g)) {
+      unmapped.push(`Group ${gi + 1}: not an object`);
+      continue;
+    }
+    const groupName = readString(g, 'name', `Group ${gi + 1}`, unmapped);
+    const groupLabel = `Group "${groupName}"`;
+    reportUnknownKeys(g, KNOWN_GROUP_KEYS, groupLabel, unmapped);
+
+    const group = createGroup(groupName);
+    group.order = groups.length - 1 - gi;
+    applyVisibility(group, g, unmapped, groupLabel);
+    const groupGlass = mapGroupGlass(g, groupLabel, unmapped);
+    const groupPosition = readPosition(g.position, groupLabel, unmapped);
+    layers.push(group);
+
+    const gLayers: unknown[] = Array.isArray(g.layers) ? g.layers : [];
+    for (let li = 0; li < gLayers.length; li++) {
+      const l = gLayers[li];
+      if (!isRecord(l)) {
+        unmapped.push(`${groupLabel}, layer ${li + 1}: not an object`);
+        continue;
+      }
+      const layerName = typeof l.name === 'string' ? l.name : typeof l['image-name'] === 'string' ? l['image-name'] : `${li + 1}`;
+      const layerLabel = `Layer "${layerName}"`;
+      reportUnknownKeys(l, KNOWN_LAYER_KEYS, layerLabel, unmapped);
+      const layer = await mapLayer(l, files, root, group.id, layerLabel, unmapped);
+      layer.order = gLayers.length - 1 - li;
+      layer.liquidGlass = { ...layer.liquidGlass, ...groupGlass.base };
+      for (const [mode, lg] of Object.entries(groupGlass.overrides) as [AppearanceMode, Partial<LiquidGlassConfig>][]) {
+        setOverride(layer, mode, { liquidGlass: { ...layer.appearances?.[mode]?.liquidGlass, ...lg } });
+      }
+      const position = readPosition(l.position, layerLabel, unmapped);
+      layer.layout = { ...layer.layout, ...composePosition(groupPosition, position, layer.layout.scale) };
+      layers.push(layer);
+    }
+  }
+
+  return {
+    name: basename(sourceName).replace(/(\.icon)?(\.zip)?$/i, '') || 'Untitled',
+    layers,
+    background,
+    unmapped,
+  };
+}
+
+// ─── Mapping helpers ──────────────────────────────────────────────────────────
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+/** `node[key]` when it is a string; anything else present is reported. */
+function readString(node: Record<string, unknown>, key: string, fallback: string, unmapped: string[], label?: string): string {
+  const value = node[key];
+  if (typeof value === 'string') return value;
+  if (value !== undefined) unmapped.push(`${label ?? fallback}: "${key}" ${JSON.stringify(value)}`);
+  return fallback;
+}
+
+function reportUnknownKeys(node: Record<string, unknown>, known: Set<string>, label: string, unmapped: string[]) {
+  for (const key of Object.keys(node)) {
+    const base = key.replace(/-specializations$/, '');
+    if (!known.has(base)) unmapped.push(`${label}: "${key}"`);
+  }
+}
+
+function setOverride(layer: Layer, mode: AppearanceMode, override: AppearanceOverride) {
+  layer.appearances = {
+    ...layer.appearances,
+    [mode]: { ...layer.appearances?.[mode], ...override },
+  };
+}
+
+function applyVisibility(layer: Layer, node: Record<string, unknown>, unmapped: string[], label: string) {
+  const hidden = readSpecialized<boolean>(node, 'hidden');
+  if (hidden.base !== undefined) layer.visible = !hidden.base;
+  const opacity = readSpecialized<number>(node, 'opacity');
+  if (isNumber(opacity.base)) layer.opacity = Math.round(opacity.base * 100);
+  const blend = readSpecialized<string>(node, 'blend-mode');
+  if (blend.base !== undefined) {
+    if (BLEND_MODES.includes(blend.base as BlendMode)) layer.blendMode = blend.base as BlendMode;
+    else unmapped.push(`${label}: blend mode "${blend.base}"`);
+  }
+  if (blend.dark !== undefined || blend.tinted !== undefined) {
+    unmapped.push(`${label}: per-appearance blend mode`);
+  }
+
+  for (const key of ['dark', 'tinted'] as const) {
+    const mode = APPEARANCE_MAP[key];
+    if (hidden[key] !== undefined) setOverride(layer, mode, { visible: !hidden[key] });
+    if (isNumber(opacity[key])) setOverride(layer, mode, { opacity: Math.round(opacity[key]! * 100) });
+  }
+}
+
+function mapFill(fill: unknown, label: string, unmapped: string[]): FillConfig | null {
+  if (fill === undefined || fill === 'automatic') return { type: 'none' };
+  if (!isRecord(fill)) {
+    unmapped.push(`${label}: fill ${JSON.stringify(fill)}`);
+    return null;
+  }
+  const color = (value: unknown) => {
+    const c = typeof value === 'string' ? parseIconColor(value) : null;
+    if (!c) unmapped.push(`${label}: color ${JSON.stringify(value)}`);
+    else if (c.alpha < 1) unmapped.push(`${label}: color alpha ${c.alpha}`);
+    return c?.hex ?? null;
+  };
+  if ('solid' in fill) {
+    const hex = color(fill.solid);
+    return hex ? { type: 'solid', color: hex } : null;
+  }
+  if ('automatic-gradient' in fill) {
+    const hex = color(fill['automatic-gradient']);
+    return hex ? { type: 'gradient', stops: automaticGradientStops(hex), angle: 90 } : null;
+  }
+  if ('linear-gradient' in fill) {
+    const colors = fill['linear-gradient'];
+    if (!Array.isArray(colors) || colors.length !== 2) {
+      unmapped.push(`${label}: linear gradient ${JSON.stringify(colors)}`);
+      return null;
+    }
+    const [a, b] = colors.map(color);
+    if (!a || !b) return null;
+    return {
+      type: 'gradient',
+      stops: [{ offset: 0, color: a }, { offset: 1, color: b }],
+      angle: mapOrientation(fill.orientation, label, unmapped),
+    };
+  }
+  unmapped.push(`${label}: fill ${JSON.stringify(fill)}`);
+  return null;
+}
+
+function mapOrientation(o: unknown, label: string, unmapped: string[]): number {
+  if (o === undefined) return 90;
+  const isPoint = (p: unknown): p is { x: number; y: number } => isRecord(p) && isNumber(p.x) && isNumber(p.y);
+  if (isRecord(o) && isPoint(o.start) && isPoint(o.stop)) return orientationToAngle({ start: o.start, stop: o.stop });
+  unmapped.push(`${label}: gradient orientation ${JSON.stringify(o)}`);
+  return 90;
+}
+
+function mapBackground(doc: Record<string, unknown>, unmapped: string[]): BackgroundConfig {
+  const fallback: BackgroundConfig = {
+    type: 'gradient', hue: 220, tint: 20, colors: bgColorsFromHueTint(220, 20), angle: 135,
+  };
+  const fill = readSpecialized<unknown>(doc, 'fill');
+  if (fill.dark !== undefined || fill.tinted !== undefined) {
+    unmapped.push('Document: per-appearance background fill (Dark mode uses the system background)');
+  }
+  const mapped = mapFill(fill.base, 'Document background', unmapped);
+  if (!mapped || mapped.type === 'none') return fallback;
+  if (mapped.type === 'solid') {
+    return {
+      type: 'gradient',
+      bgType: 'custom',
+      stops: [{ offset: 0, color: mapped.color }, { offset: 1, color: mapped.color }],
+      angle: 90,
+    };
+  }
+  return { type: 'gradient', bgType: 'custom', stops: mapped.stops, angle: mapped.angle };
+}
+
+function mapGroupGlass(
+  g: Record<string, unknown>,
+  label: string,
+  unmapped: string[],
+): { base: Partial<LiquidGlassConfig>; overrides: Partial<Record<AppearanceMode, Partial<LiquidGlassConfig>>> } {
+  const toShadow = (s: Record<string, unknown>): LiquidGlassConfig['shadow'] => ({
+    enabled: s.kind !== 'none',
+    value: Math.round((isNumber(s.opacity) ? s.opacity : 0.5) * 100),
+    type: s.kind === 'layer-color' ? 'chromatic' : 'neutral',
+  });
+  const toTranslucency = (t: Record<string, unknown>): LiquidGlassConfig['translucency'] => ({
+    enabled: !!t.enabled,
+    value: Math.round((isNumber(t.value) ? t.value : 0.5) * 100),
+  });
+  const toBlur = (b: unknown): LiquidGlassConfig['blur'] =>
+    isNumber(b) ? { enabled: true, value: Math.round(b * 100) } : { enabled: false, value: 0 };
+
+  const shadow = readSpecialized<unknown>(g, 'shadow');
+  const translucency = readSpecialized<unknown>(g, 'translucency');
+  const specular = readSpecialized<boolean>(g, 'specular');
+  const blur = readSpecialized<unknown>(g, 'blur-material');
+
+  const pick = (key: 'base' | 'dark' | 'tinted'): Partial<LiquidGlassConfig> => {
+    const out: Partial<LiquidGlassConfig> = {};
+    const s = shadow[key];
+    const t = translucency[key];
+    if (isRecord(s)) out.shadow = toShadow(s);
+    else if (s !== undefined) unmapped.push(`${label}: shadow ${JSON.stringify(s)}`);
+    if (isRecord(t)) out.translucency = toTranslucency(t);
+    else if (t !== undefined) unmapped.push(`${label}: translucency ${JSON.stringify(t)}`);
+    if (specular[key] !== undefined) out.specular = !!specular[key];
+    if (blur[key] !== undefined) out.blur = toBlur(blur[key]);
+    return out;
+  };
+
+  if (g.lighting === 'combined') unmapped.push(`${label}: combined lighting (glass is applied per layer)`);
+
+  const overrides: Partial<Record<AppearanceMode, Partial<LiquidGlassConfig>>> = {};
+  for (const key of ['dark', 'tinted'] as const) {
+    const o = pick(key);
+    if (Object.keys(o).length > 0) overrides[APPEARANCE_MAP[key]] = o;
+  }
+  return { base: pick('base'), overrides };
+}
+
+async function mapLayer(
+  l: Record<string, unknown>,
+  files: BundleFiles,
+  root: string,
+  parentId: string,
+  label: string,
+  unmapped: string[],
+): Promise<Layer> {
+  const imageName = readString(l, 'image-name', '', unmapped, label) || undefined;
+  const layer = createLayer(readString(l, 'name', imageName ?? 'Layer', unmapped, label), parentId);
+  layer.layout = { ...layer.layout, x: 0, y: 0, scale: 100 };
+
+  if (imageName) {
+    const blob = files.get(`${root}Assets/${imageName}`) ?? files.get(`${root}${imageName}`);
+    if (blob) {
+      const typed = blob.type ? blob : new Blob([blob], { type: mimeTypeForPath(imageName) });
+      layer.blobUrl = URL.createObjectURL(typed);
+      layer.sourceFile = imageName;
+      // Our renderer fits the image to the canvas; Icon Composer draws it at its
+      // point size. Convert so the artwork keeps its size relative to the icon.
+      const dims = await measureImageAsset(typed, imageName);
+      if (dims) layer.layout.scale = (Math.max(dims.width, dims.height) / ICON_CANVAS_POINTS) * 100;
+    } else {
+      unmapped.push(`${label}: missing asset "Assets/${imageName}"`);
+    }
+  }
+
+  applyVisibility(layer, l, unmapped, label);
+
+  const fill = readSpecialized<unknown>(l, 'fill');
+  const baseFill = mapFill(fill.base, label, unmapped);
+  if (baseFill) layer.fill = baseFill;
+  for (const key of ['dark', 'tinted'] as const) {
+    if (fill[key] === undefined) continue;
+    const f = mapFill(fill[key], `${label} (${key})`, unmapped);
+    if (f) setOverride(layer, APPEARANCE_MAP[key], { fill: f });
+  }
+
+  const glass = readSpecialized<boolean>(l, 'glass');
+  if (glass.dark !== undefined || glass.tinted !== undefined) {
+    unmapped.push(`${label}: per-appearance glass toggle`);
+  }
+  layer.liquidGlass = { ...layer.liquidGlass, enabled: glass.base !== false };
+  return layer;
+}
+
+interface Position {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+/** An icon.json position in points; malformed parts are reported and ignored. */
+function readPosition(p: unknown, label: string, unmapped: string[]): Position {
+  const out = { x: 0, y: 0, scale: 1 };
+  if (p === undefined) return out;
+  if (!isRecord(p)) {
+    unmapped.push(`${label}: position ${JSON.stringify(p)}`);
+    return out;
+  }
+  const t = p['translation-in-points'];
+  if (Array.isArray(t) && t.length === 2 && t.every(isNumber)) [out.x, out.y] = t;
+  else if (t !== undefined) unmapped.push(`${label}: translation ${JSON.stringify(t)}`);
+  if (isNumber(p.scale)) out.scale = p.scale;
+  else if (p.scale !== undefined) unmapped.push(`${label}: scale ${JSON.stringify(p.scale)}`);
+  return out;
+}
+
+/** Group transform applied on top of the layer transform (scale about the centre). */
+function composePosition(group: Position, layer: Position, fitScale: number): Pick<Layer['layout'], 'x' | 'y' | 'scale'> {
+  const toPct = (pt: number) => (pt / ICON_CANVAS_POINTS) * 100;
+  const round = (v: number) => Math.round(v * 100) / 100;
+  return {
+    x: round(toPct(group.x + layer.x * group.scale)),
+    y: round(toPct(group.y + layer.y * group.scale)),
+    scale: round(fitScale * layer.scale * group.scale),
+  };
+}
@@ -0,0 +1,180 @@
+import type { Zippable } from 'fflate';
+import { $layers, $background, $iconName } from '../store/iconStore';
+import { $lightAngle, APPEARANCE_MODES } from '../store/uiStore';
+import type { AppearanceMode, BackgroundConfig, ExportFormat, ExportSettings, Layer } from '../types/index';
+import { MASTER_SIZE, renderMaster, resizeCanvas, canvasToBlob } from './rasterize';
+import { zipFiles, downloadBlob, sanitizeFileName } from './download';
+
+// ─── Image export ─────────────────────────────────────────────────────────────
+// Plain image files: every combination of appearance mode × size × format from
+// the export settings. One master is rendered per mode and downscaled to each
+// size. A single file downloads as-is; several are zipped.
+//
+// Jobs report progress per rendered / encoded step. Their AbortSignal also
+// cancels the render in flight; the job rejects with an AbortError.
+
+export const FORMAT_INFO: Record<ExportFormat, { label: string; mime: string; extension: string; lossy: boolean }> = {
+  png:  { label: 'PNG',  mime: 'image/png',  extension: 'png',  lossy: false },
+  webp: { label: 'WebP', mime: 'image/webp', extension: 'webp', lossy: true },
+  avif: { label: 'AVIF', mime: 'image/avif', extension: 'avif', lossy: true },
+  jpeg: { label: 'JPEG', mime: 'image/jpeg', extension: 'jpg',  lossy: true },
+};
+
+// JPEG has no alpha channel — transparent areas are flattened onto white
+const JPEG_MATTE = '#ffffff';
+
+interface ExportDocument {
+  iconName: string;
+  layers: Layer[];
+  background: BackgroundConfig;
+  lightAngle: number;
+}
+
+export interface ExportedFile {
+  /** Path inside the zip — `<Mode>/<name>` when grouped by mode */
+  fileName: string;
+  blob: Blob;
+}
+
+export interface ExportJobOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+  /** Put each appearance in its own folder, named after the mode */
+  groupByMode?: boolean;
+}
+
+/**
+ * Expands a file name template for one output file. The extension is not
+ * part of the template.
+ */
+export function formatExportFileName(
+  template: string,
+  vars: { iconName: string; size: number; mode: AppearanceMode; format: ExportFormat },
+): string {
+  const name = template
+    .replace(/\$iconName/g, vars.iconName)
+    .replace(/\$size/g, String(vars.size))
+    .replace(/\$mode/g, vars.mode)
+    .replace(/\$format/g, vars.format);
+  return `${sanitizeFileName(name) || 'icon'}.${FORMAT_INFO[vars.format].extension}`;
+}
+
+/**
+ * Renders every file the settings describe.
+ */
+export async function buildImageExport(
+  doc: ExportDocument,
+  settings: ExportSettings,
+  { signal, onProgress, groupByMode = false }: ExportJobOptions = {},
+): Promise<ExportedFile[]> {
+  const out: ExportedFile[] = [];
+  const used = new Set<string>();
+  // Never upscale: the master is at least as large as the largest size
+  const masterSize = Math.max(MASTER_SIZE, ...settings.sizes);
+  // One step per master render plus one per encoded file
+  const total = settings.modes.length * (1 + settings.sizes.length * settings.formats.length);
+  let done = 0;
+  const step = () => {
+    onProgress?.(++done, total);
+    signal?.throwIfAborted();
+  };
+  signal?.throwIfAborted();
+  onProgress?.(0, total);
+
+  for (const mode of settings.modes) {
+    const folder = groupByMode ? `${modeLabel(mode)}/` : '';
+    const master = await renderMaster({
+      layers: doc.layers,
+      background: doc.background,
+      lightAngle: settings.lightAngle ?? doc.lightAngle,
+      appearanceMode: mode,
+      shape: settings.background === 'filled' ? 'square' : 'squircle',
+    }, masterSize, signal);
+    step();
+
+    for (const size of settings.sizes) {
+      const canvas = resizeCanvas(master, size);
+      for (const format of settings.formats) {
+        const { mime, lossy } = FORMAT_INFO[format];
+        const source = format === 'jpeg' ? flatten(canvas, JPEG_MATTE) : canvas;
+        const blob = await canvasToBlob(source, mime, lossy ? settings.quality / 100 : undefined);
+        const fileName = uniqueName(
+          folder + formatExportFileName(settings.fileNameTemplate, { iconName: doc.iconName, size, mode, format }),
+          used,
+        );
+        out.push({ fileName, blob });
+        step();
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Exports the current document with the given settings and downloads the
+ * result — the file itself, or `<name>-export.zip` for several files.
+ */
+export async function exportImages(settings: ExportSettings, options: ExportJobOptions = {}) {
+  const files = await buildImageExport(currentDocument(), settings, options);
+  if (files.length === 1) {
+    downloadBlob(files[0].blob, files[0].fileName);
+    return;
+  }
+  await downloadZip(files, 'export', options.signal);
+}
+
+/**
+ * Batch export: every appearance mode at the chosen sizes and formats in one
+ * job, downloaded as `<name>-appearances.zip` with one folder per mode
+ * (`Default/`, `Dark/`, …).
+ */
+export async function exportAllAppearances(settings: ExportSettings, options: ExportJobOptions = {}) {
+  const files = await buildImageExport(
+    currentDocument(),
+    { ...settings, modes: APPEARANCE_MODES.map((m) => m.value) },
+    { ...options, groupByMode: true },
+  );
+  await downloadZip(files, 'appearances', options.signal);
+}
+
+function currentDocument(): ExportDocument {
+  return {
+    iconName: $iconName.get(),
+    layers: $layers.get(),
+    background: $background.get(),
+    lightAngle: $lightAngle.get(),
+  };
+}
+
+async function downloadZip(files: ExportedFile[], suffix: string, signal?: AbortSignal) {
+  const zippable: Zippable = {};
+  for (const f of files) zippable[f.fileName] = new Uint8Array(await f.blob.arrayBuffer());
+  // Images are already compressed
+  const blob = await zipFiles(zippable, 0);
+  signal?.throwIfAborted();
+  downloadBlob(blob, `${sanitizeFileName($iconName.get()) || 'Icon'}-${suffix}.zip`);
+}
+
+function modeLabel(mode: AppearanceMode): string {
+  return APPEARANCE_MODES.find((m) => m.value === mode)?.label ?? mode;
+}
+
+function flatten(source: HTMLCanvasElement, color: string): HTMLCanvasElement {
+  const out = document.createElement('canvas');
+  out.width = source.width;
+  out.height = source.height;
+  const oc = out.getContext('2d')!;
+  oc.fillStyle = color;
+  oc.fillRect(0, 0, out.width, out.height);
+  oc.drawImage(source, 0, 0);
+  return out;
+}
+
+// Templates without $size / $mode / $format would collide — number the repeats
+function uniqueName(fileName: string, used: Set<string>): string {
+  let name = fileName;
+  const dot = fileName.lastIndexOf('.');
+  for (let n = 2; used.has(name); n++) name = `${fileName.slice(0, dot)}-${n}${fileName.slice(dot)}`;
+  used.add(name);
+  return name;
+}
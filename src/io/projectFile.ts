@@ -0,0 +1,337 @@
+import type { Zippable } from 'fflate';
+import { $layers, $background, $iconName, $iconModified, replaceDocument } from '../store/iconStore';
+import {
+  $appearanceMode, $lightAngle, $zoom, setAppearanceMode, setLightAngle, setZoom, selectLayer,
+} from '../store/uiStore';
+import { getLayerAsset, createDocument, $activeDocumentId } from '../store/persistence';
+import { resetHistory } from '../store/history';
+import { $exportSettings, setExportSettings, normalizeExportSettings } from '../store/exportStore';
+import { CURRENT_VERSION, migrateDocument, MigrationError } from '../store/migrations';
+import type { PersistedDocument } from '../store/migrations';
+import type { Layer } from '../types/index';
+import { readZip, extensionForMimeType, mimeTypeForPath } from './bundleFiles';
+import { zipFiles, downloadBlob, sanitizeFileName } from './download';
+
+// ─── Project files ────────────────────────────────────────────────────────────
+// A portable document: a zip holding a versioned manifest plus the original
+// source file of every layer.
+//   manifest.json        — { format, version, data: { iconName, layers, background, ui, exportSettings }, assets }
+//   assets/<layerId>.svg — one file per image layer, keyed by layer id
+// `version` is the document schema version — older files go through the same
+// migrations as the auto-saved document.
+
+export const PROJECT_FILE_EXTENSION = '.liquidicon';
+const PROJECT_FORMAT = 'liquid-composer-project';
+const MANIFEST_PATH = 'manifest.json';
+
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  data: Required<PersistedDocument>;
+  /** Layer id → path of its source file inside the archive */
+  assets: Record<string, string>;
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+export function isProjectFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith(PROJECT_FILE_EXTENSION);
+}
+
+// ─── Writing ──────────────────────────────────────────────────────────────────
+
+/**
+ * Packs the current document, UI state and layer source files into a project zip.
+ */
+export async function buildProjectFile(): Promise<Blob> {
+  const layers = $layers.get();
+  const files: Zippable = {};
+  const assets: Record<string, string> = {};
+
+  for (const layer of layers) {
+    if (layer.type !== 'layer') continue;
+    const blob = await getLayerAsset(layer);
+    if (!blob) continue;
+    const path = `assets/${layer.id}.${extensionForMimeType(blob.type) ?? 'bin'}`;
+    files[path] = new Uint8Array(await blob.arrayBuffer());
+    assets[layer.id] = path;
+  }
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: CURRENT_VERSION,
+    data: {
+      iconName: $iconName.get(),
+      layers: layers.map((l) => ({ ...l, blobUrl: undefined })),
+      background: $background.get(),
+      ui: {
+        appearanceMode: $appearanceMode.get(),
+        lightAngle: $lightAngle.get(),
+        zoom: $zoom.get(),
+      },
+      exportSettings: $exportSettings.get(),
+    },
+    assets,
+  };
+  files[MANIFEST_PATH] = [new TextEncoder().encode(JSON.stringify(manifest, null, 2)), { level: 6 }];
+
+  // Assets are mostly already-compressed images — only the manifest is deflated
+  return zipFiles(files, 0);
+}
+
+// ─── Reading ──────────────────────────────────────────────────────────────────
+
+/**
+ * Opens a project file as a new library document. Resolves false when the
+ * switch to the new document was cancelled (unsaved changes kept).
+ * Throws ProjectFileError with a user-facing message for malformed files.
+ */
+export async function openProjectFile(file: Blob): Promise<boolean> {
+  let files;
+  try {
+    files = await readZip(file);
+  } catch {
+    throw new ProjectFileError('This file is not a Liquid Composer project (not a zip archive).');
+  }
+
+  const manifestBlob = files.get(MANIFEST_PATH);
+  if (!manifestBlob) throw new ProjectFileError('The project is missing manifest.json.');
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await manifestBlob.text());
+  } catch {
+    throw new ProjectFileError('manifest.json is not valid JSON.');
+  }
+  validateManifest(manifest);
+
+  let data: PersistedDocument;
+  try {
+    data = migrateDocument(manifest.version, manifest.data).data;
+  } catch (err) {
+    if (err instanceof MigrationError) throw new ProjectFileError(err.message);
+    throw err;
+  }
+  validateDocument(data);
+
+  const { assets } = manifest;
+  const layers = data.layers.map((layer) => {
+    if (layer.type !== 'layer' || !assets[layer.id]) return { ...layer, blobUrl: undefined };
+    const blob = files.get(assets[layer.id]);
+    if (!blob) throw new ProjectFileError(`Asset "${assets[layer.id]}" for layer "${layer.name}" is missing.`);
+    const typed = blob.type && blob.type !== 'application/octet-stream'
+      ? blob
+      : new Blob([blob], { type: mimeTypeForPath(assets[layer.id]) });
+    return { ...layer, blobUrl: URL.createObjectURL(typed) };
+  });
+
+  if (!(await createDocument())) {
+    layers.forEach((l) => l.blobUrl && URL.revokeObjectURL(l.blobUrl));
+    return false;
+  }
+  replaceDocument({ name: data.iconName, layers, background: data.background });
+  setAppearanceMode(data.ui.appearanceMode);
+  setLightAngle(data.ui.lightAngle);
+  setZoom(data.ui.zoom);
+  setExportSettings(normalizeExportSettings(data.exportSettings));
+  selectLayer(null);
+  // An opened file is a fresh starting point, not an edit of the previous one
+  resetHistory();
+  $iconModified.set(false);
+  return true;
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+/** Checks the envelope only — the document itself is validated after migration. */
+function validateManifest(m: unknown): asserts m is ProjectManifest {
+  if (!isObject(m) || m.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError('This file is not a Liquid Composer project.');
+  }
+  if (!isNumber(m.version)) throw new ProjectFileError('The project has no format version.');
+  if (!isObject(m.data)) throw new ProjectFileError('The project has no document data.');
+  if (!isObject(m.assets)) throw new ProjectFileError('The project asset table is malformed.');
+}
+
+// Export settings are optional — files written before they existed have none
+function validateDocument(data: unknown): asserts data is PersistedDocument & Pick<Required<PersistedDocument>, 'ui'> {
+  if (!isObject(data)) throw new ProjectFileError('The project has no document data.');
+  if (typeof data.iconName !== 'string') throw new ProjectFileError('The project has no icon name.');
+  if (!isObject(data.background) || typeof data.background.type !== 'string') {
+    throw new ProjectFileError('The project background is malformed.');
+  }
+  if (!isObject(data.ui)) throw new ProjectFileError('The project has no view settings.');
+  if (!(['default', 'dark', 'clear'] as unknown[]).includes(data.ui.appearanceMode)) {
+    throw new ProjectFileError(`Unknown appearance mode "${String(data.ui.appearanceMode)}".`);
+  }
+  if (!isNumber(data.ui.lightAngle) || !isNumber(data.ui.zoom)) {
+    throw new ProjectFileError('The project view settings are malformed.');
+  }
+  if (!Array.isArray(data.layers)) throw new ProjectFileError('The project has no layer list.');
+
+  const ids = new Set<string>();
+  const groupIds = new Set<string>();
+  (data.layers as unknown[]).forEach((l, i) => {
+    const where = `Layer ${i + 1}`;
+    if (!isObject(l)) throw new ProjectFileError(`${where} is not an object.`);
+    if (typeof l.id !== 'string' || !l.id) throw new ProjectFileError(`${where} has no id.`);
+    if (ids.has(l.id)) throw new ProjectFileError(`${where} reuses the id "${l.id}".`);
+    ids.add(l.id);
+    if (l.type !== 'layer' && l.type !== 'group') throw new ProjectFileError(`${where} has an unknown type "${String(l.type)}".`);
+    if (l.type === 'group') groupIds.add(l.id);
+    if (typeof l.name !== 'string') throw new ProjectFileError(`${where} has no name.`);
+    if (!isNumber(l.order) || !isNumber(l.opacity)) throw new ProjectFileError(`${where} has a malformed order or opacity.`);
+    if (typeof l.visible !== 'boolean') throw new ProjectFileError(`${where} has a malformed visibility flag.`);
+    if (!isObject(l.fill) || !isObject(l.liquidGlass)) throw new ProjectFileError(`${where} has malformed fill or glass settings.`);
+    if (!isObject(l.layout) || !isNumber(l.layout.x) || !isNumber(l.layout.y) || !isNumber(l.layout.scale)) {
+      throw new ProjectFileError(`${where} has a malformed layout.`);
+    }
+    const { rotation, scaleX, scaleY, flipX, flipY } = l.layout;
+    if ([rotation, scaleX, scaleY].some((v) => v !== undefined && !isNumber(v))
+      || [flipX, flipY].some((v) => v !== undefined && typeof v !== 'boolean')) {
+      throw new ProjectFileError(`${where} has a malformed layout.`);
+    }
+  });
+  const layers = data.layers as Layer[];
+  for (const l of layers) {
+    if (l.parentId !== null && !groupIds.has(l.parentId)) {
+      throw new ProjectFileError(`Layer "${l.name}" belongs to a group that does not exist.`);
+    }
+  }
+  // A group inside its own subtree would drop out of the tree and the render
+  const parentOf = new Map(layers.map((l) => [l.id, l.parentId]));
+  for (const l of layers) {
+    const seen = new Set<string>([l.id]);
+    for (let parentId = l.parentId; parentId !== null; parentId = parentOf.get(parentId) ?? null) {
+      if (seen.has(parentId)) throw new ProjectFileError(`Layer "${l.name}" is nested inside itself.`);
+      seen.add(parentId);
+    }
+  }
+}
+
+// ─── Save / Open actions ──────────────────────────────────────────────────────
+// Uses the File System Access API where available so Save can write back to
+// the file that was opened; other browsers fall back to download / <input>.
+
+interface FileHandle {
+  name: string;
+  getFile(): Promise<File>;
+  createWritable(): Promise<{ write(data: Blob): Promise<void>; close(): Promise<void> }>;
+}
+
+interface FilePickerOptions {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}
+
+type PickerWindow = Window & {
+  showSaveFilePicker?: (options?: FilePickerOptions) => Promise<FileHandle>;
+  showOpenFilePicker?: (options?: FilePickerOptions) => Promise<FileHandle[]>;
+};
+
+const PICKER_TYPES: FilePickerOptions['types'] = [
+  { description: 'Liquid Composer project', accept: { 'application/zip': [PROJECT_FILE_EXTENSION] } },
+];
+
+// File a library document was opened from / last saved to. Only the document
+// it belongs to saves back to it — after switching documents Save asks again.
+let currentHandle: { documentId: string; handle: FileHandle } | null = null;
+
+function rememberHandle(handle: FileHandle) {
+  const documentId = $activeDocumentId.get();
+  currentHandle = documentId ? { documentId, handle } : null;
+}
+
+function isAbort(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+function suggestedFileName(): string {
+  const name = sanitizeFileName($iconName.get()) || 'Untitled';
+  return `${name}${PROJECT_FILE_EXTENSION}`;
+}
+
+async function writeToHandle(handle: FileHandle) {
+  const blob = await buildProjectFile();
+  const writable = await handle.createWritable();
+  await writable.write(blob);
+  await writable.close();
+  rememberHandle(handle);
+  $iconModified.set(false);
+}
+
+/**
+ * Saves to the file the document came from, or asks for a location the first time.
+ */
+export async function saveProject() {
+  if (currentHandle?.documentId === $activeDocumentId.get()) return writeToHandle(currentHandle.handle);
+  return saveProjectAs();
+}
+
+export async function saveProjectAs() {
+  const w = window as PickerWindow;
+  if (w.showSaveFilePicker) {
+    let handle: FileHandle;
+    try {
+      handle = await w.showSaveFilePicker({ suggestedName: suggestedFileName(), types: PICKER_TYPES });
+    } catch (err) {
+      if (isAbort(err)) return;
+      throw err;
+    }
+    return writeToHandle(handle);
+  }
+
+  downloadBlob(await buildProjectFile(), suggestedFileName());
+  $iconModified.set(false);
+}
+
+/**
+ * Asks for a project file and opens it.
+ */
+export async function openProject() {
+  const w = window as PickerWindow;
+  if (w.showOpenFilePicker) {
+    let handle: FileHandle;
+    try {
+      [handle] = await w.showOpenFilePicker({ types: PICKER_TYPES });
+    } catch (err) {
+      if (isAbort(err)) return;
+      throw err;
+    }
+    if (await openProjectFile(await handle.getFile())) rememberHandle(handle);
+    return;
+  }
+
+  const file = await new Promise<File | null>((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = PROJECT_FILE_EXTENSION;
+    input.onchange = () => resolve(input.files?.[0] ?? null);
+    // Dismissing the picker fires `cancel`. Older browsers only refocus the
+    // window — which happens before `change` when a file was picked, hence the
+    // delay
+    input.addEventListener('cancel', () => resolve(null));
+    window.addEventListener('focus', () => {
+      window.setTimeout(() => {
+        if (!input.files?.length) resolve(null);
+      }, 1000);
+    }, { once: true });
+    input.click();
+  });
+  if (file) await openDroppedProject(file);
+}
+
+/**
+ * Opens a project file that did not come from a picker (drag-and-drop).
+ * Save will ask for a location since the new document has no handle.
+ */
+export async function openDroppedProject(file: File) {
+  await openProjectFile(file);
+}
@@ -0,0 +1,78 @@
+import { renderIcon } from '../engine/renderClient';
+import type { RenderContext } from '../types/index';
+
+// ─── Raster helpers shared by the exporters ───────────────────────────────────
+// Exporters render one large master per variant through renderIcon and
+// derive every smaller size from it: far cheaper than re-rendering (each
+// render size gets its own WebGL renderer and only a few are kept) and it keeps
+// all sizes pixel-consistent.
+
+export const MASTER_SIZE = 1024;
+
+/**
+ * Renders the icon into a fresh canvas.
+ */
+export async function renderMaster(
+  ctx: Omit<RenderContext, 'size'>,
+  size = MASTER_SIZE,
+  signal?: AbortSignal,
+): Promise<HTMLCanvasElement> {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = size;
+  await renderIcon(canvas, { ...ctx, size }, signal);
+  return canvas;
+}
+
+/**
+ * Downscales a square canvas by repeated halving, then one final high-quality
+ * step — a single large drawImage reduction aliases fine detail.
+ */
+export function resizeCanvas(source: HTMLCanvasElement, size: number): HTMLCanvasElement {
+  let current = source;
+  while (current.width / 2 >= size) {
+    const half = document.createElement('canvas');
+    half.width = half.height = Math.round(current.width / 2);
+    const hc = half.getContext('2d')!;
+    hc.imageSmoothingQuality = 'high';
+    hc.drawImage(current, 0, 0, half.width, half.height);
+    current = half;
+  }
+  if (current.width === size) return current;
+  const out = document.createElement('canvas');
+  out.width = out.height = size;
+  const oc = out.getContext('2d')!;
+  oc.imageSmoothingQuality = 'high';
+  oc.drawImage(current, 0, 0, size, size);
+  return out;
+}
+
+/**
+ * Encodes a canvas. Rejects instead of silently falling back to PNG when the
+ * browser cannot encode `type` (e.g. AVIF in most browsers).
+ */
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob && blob.type === type) resolve(blob);
+      else reject(new Error(`This browser cannot encode ${type} images.`));
+    }, type, quality);
+  });
+}
+
+const encodeSupport = new Map<string, boolean>();
+
+/** True when canvas.toBlob / toDataURL can produce `type` in this browser. */
+export function canEncode(type: string): boolean {
+  let supported = encodeSupport.get(type);
+  if (supported === undefined) {
+    const probe = document.createElement('canvas');
+    probe.width = probe.height = 1;
+    supported = probe.toDataURL(type).startsWith(`data:${type}`);
+    encodeSupport.set(type, supported);
+  }
+  return supported;
+}
+
+export async function canvasToBytes(canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Uint8Array> {
+  return new Uint8Array(await (await canvasToBlob(canvas, type, quality)).arrayBuffer());
+}
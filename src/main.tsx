@@ -2,9 +2,11 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { AppLayout } from './components/layout/AppLayout';
 import { initPersistence } from './store/persistence';
+import { initHistory } from './store/history';
 import './styles/global.css';
 
-// Load state from localStorage before mounting
+// Load the document library (and the last active document) before mounting
+initHistory();
 initPersistence();
 
 createRoot(document.getElementById('root')!).render(
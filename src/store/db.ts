@@ -0,0 +1,103 @@
+// ─── IndexedDB ────────────────────────────────────────────────────────────────
+// One database holds the document library and the layer source files.
+//   documents — one StoredDocument per document, keyed by id
+//   images    — layer source Blobs keyed `${documentId}/${layerId}`, so every
+//               document has its own asset namespace (duplicates stay independent)
+// Database v1 only had `images`, keyed by bare layer id (a single document).
+
+import type { PersistedDocument } from './migrations';
+
+const DB_NAME = 'liquid-composer-assets';
+const DB_VERSION = 2;
+const ASSET_STORE_NAME = 'images';
+const DOCUMENT_STORE_NAME = 'documents';
+
+export interface StoredDocument {
+  id: string;
+  /** Schema version of `data` (see migrations.ts) */
+  version: number;
+  data: PersistedDocument;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail: Blob | null;
+  /** Payload as it was before the last migration, kept for recovery */
+  backup?: { version: number; data: unknown };
+}
+
+const dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    if (!db.objectStoreNames.contains(ASSET_STORE_NAME)) db.createObjectStore(ASSET_STORE_NAME);
+    if (!db.objectStoreNames.contains(DOCUMENT_STORE_NAME)) db.createObjectStore(DOCUMENT_STORE_NAME, { keyPath: 'id' });
+  };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+function request<T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return dbPromise.then((db) => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = fn(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+  }));
+}
+
+export function assetKey(documentId: string, layerId: string): string {
+  return `${documentId}/${layerId}`;
+}
+
+// ─── Assets ───────────────────────────────────────────────────────────────────
+
+export function setAsset(key: string, blob: Blob): Promise<IDBValidKey> {
+  return request(ASSET_STORE_NAME, 'readwrite', (s) => s.put(blob, key));
+}
+
+export async function getAsset(key: string): Promise<Blob | null> {
+  try {
+    return (await request<Blob | undefined>(ASSET_STORE_NAME, 'readonly', (s) => s.get(key))) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function removeAsset(key: string): Promise<undefined> {
+  return request(ASSET_STORE_NAME, 'readwrite', (s) => s.delete(key));
+}
+
+/** Every asset key of one document. */
+export async function listAssetKeys(documentId: string): Promise<string[]> {
+  const prefix = `${documentId}/`;
+  // \uffff sorts after every character a layer id can contain
+  const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+  const keys = await request(ASSET_STORE_NAME, 'readonly', (s) => s.getAllKeys(range));
+  return keys.map(String);
+}
+
+// ─── Documents ────────────────────────────────────────────────────────────────
+
+export function putDocument(doc: StoredDocument): Promise<IDBValidKey> {
+  return request(DOCUMENT_STORE_NAME, 'readwrite', (s) => s.put(doc));
+}
+
+export async function getDocument(id: string): Promise<StoredDocument | null> {
+  return (await request<StoredDocument | undefined>(DOCUMENT_STORE_NAME, 'readonly', (s) => s.get(id))) ?? null;
+}
+
+export function listDocuments(): Promise<StoredDocument[]> {
+  return request<StoredDocument[]>(DOCUMENT_STORE_NAME, 'readonly', (s) => s.getAll());
+}
+
+/** Deletes a document together with its asset namespace. */
+export async function deleteDocumentRecord(id: string): Promise<void> {
+  const keys = await listAssetKeys(id);
+  await Promise.all(keys.map(removeAsset));
+  await request(DOCUMENT_STORE_NAME, 'readwrite', (s) => s.delete(id));
+}
+
+/** Empties both stores. */
+export async function clearDatabase(): Promise<void> {
+  await request(ASSET_STORE_NAME, 'readwrite', (s) => s.clear());
+  await request(DOCUMENT_STORE_NAME, 'readwrite', (s) => s.clear());
+}
@@ -0,0 +1,62 @@
+import { atom } from 'nanostores';
+import { APPEARANCE_MODES } from './uiStore';
+import type { ExportFormat, ExportSettings } from '../types/index';
+
+// ─── Image export settings ────────────────────────────────────────────────────
+// Stored with the document, so every icon remembers how it was last exported.
+
+export const EXPORT_SIZE_PRESETS = [16, 32, 64, 128, 180, 256, 512, 1024, 2048] as const;
+export const EXPORT_FORMATS: ExportFormat[] = ['png', 'webp', 'avif', 'jpeg'];
+export const EXPORT_MIN_SIZE = 8;
+export const EXPORT_MAX_SIZE = 4096;
+
+export function defaultExportSettings(): ExportSettings {
+  return {
+    sizes: [1024],
+    formats: ['png'],
+    modes: ['default'],
+    lightAngle: null,
+    background: 'transparent',
+    fileNameTemplate: '$iconName-$size-$mode',
+    quality: 90,
+  };
+}
+
+export const $exportSettings = atom<ExportSettings>(defaultExportSettings());
+
+export function setExportSettings(settings: ExportSettings) {
+  $exportSettings.set(settings);
+}
+
+/**
+ * Reads settings stored with a document. Missing or invalid fields fall back
+ * to the defaults — older documents have no settings at all.
+ */
+export function normalizeExportSettings(raw: unknown): ExportSettings {
+  const defaults = defaultExportSettings();
+  if (typeof raw !== 'object' || raw === null) return defaults;
+  const s = raw as Record<string, unknown>;
+
+  const pick = <T>(value: unknown, allowed: readonly T[]): T[] =>
+    Array.isArray(value) ? [...new Set(value.filter((v): v is T => allowed.includes(v as T)))] : [];
+  const sizes = Array.isArray(s.sizes)
+    ? [...new Set(s.sizes.filter((v): v is number =>
+      Number.isInteger(v) && v >= EXPORT_MIN_SIZE && v <= EXPORT_MAX_SIZE))].sort((a, b) => a - b)
+    : [];
+  const formats = pick(s.formats, EXPORT_FORMATS);
+  const modes = pick(s.modes, APPEARANCE_MODES.map((m) => m.value));
+
+  return {
+    sizes: sizes.length ? sizes : defaults.sizes,
+    formats: formats.length ? formats : defaults.formats,
+    modes: modes.length ? modes : defaults.modes,
+    lightAngle: typeof s.lightAngle === 'number' && Number.isFinite(s.lightAngle) ? s.lightAngle : null,
+    background: s.background === 'filled' ? 'filled' : 'transparent',
+    fileNameTemplate: typeof s.fileNameTemplate === 'string' && s.fileNameTemplate.trim()
+      ? s.fileNameTemplate
+      : defaults.fileNameTemplate,
+    quality: typeof s.quality === 'number' && s.quality >= 1 && s.quality <= 100
+      ? Math.round(s.quality)
+      : defaults.quality,
+  };
+}
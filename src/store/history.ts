@@ -0,0 +1,262 @@
+import { atom } from 'nanostores';
+import { $layers, $background, $iconName, $iconModified } from './iconStore';
+import { $selectedLayerId, selectLayer } from './uiStore';
+import type { Layer, BackgroundConfig } from '../types/index';
+
+// ─── Undo / redo history ──────────────────────────────────────────────────────
+// History observes the document atoms instead of wrapping every mutation, so any
+// write to $layers / $background / $iconName becomes undoable automatically.
+// Snapshots are cheap: every store mutation produces new arrays/objects and
+// never mutates in place, so a snapshot is just three references.
+
+const MAX_HISTORY = 100;
+// Consecutive edits to the same target within this window merge into one step
+// (slider scrubs in the inspector fire once per animation frame).
+const COALESCE_MS = 600;
+
+interface HistorySnapshot {
+  iconName: string;
+  layers: Layer[];
+  background: BackgroundConfig;
+}
+
+interface HistoryEntry {
+  snapshot: HistorySnapshot;
+  /** Identifies what changed — consecutive entries with the same key may merge. */
+  key: string | null;
+}
+
+export const $canUndo = atom<boolean>(false);
+export const $canRedo = atom<boolean>(false);
+
+const undoStack: HistoryEntry[] = [];
+const redoStack: HistoryEntry[] = [];
+
+let baseline: HistorySnapshot | null = null;
+let lastRecordTime = 0;
+let restoring = false;
+let transactionDepth = 0;
+let initialized = false;
+
+function capture(): HistorySnapshot {
+  return { iconName: $iconName.get(), layers: $layers.get(), background: $background.get() };
+}
+
+function sameSnapshot(a: HistorySnapshot, b: HistorySnapshot): boolean {
+  return a.iconName === b.iconName && a.layers === b.layers && a.background === b.background;
+}
+
+function syncFlags() {
+  $canUndo.set(undoStack.length > 0);
+  $canRedo.set(redoStack.length > 0);
+}
+
+// ─── Change classification ────────────────────────────────────────────────────
+
+const IGNORE = '__ignore__';
+
+function changedKeys<T extends object>(a: T, b: T): string[] {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  const ra = a as Record<string, unknown>;
+  const rb = b as Record<string, unknown>;
+  return [...keys].filter((k) => ra[k] !== rb[k]).sort();
+}
+
+/**
+ * Describes the difference between two snapshots as a coalescing key.
+ * Returns null for structural changes (add/remove/reorder) which never merge,
+ * and IGNORE for UI-only changes (collapsing a group) that are not worth a step.
+ */
+function coalesceKey(prev: HistorySnapshot, next: HistorySnapshot): string | null {
+  const parts: string[] = [];
+  if (prev.iconName !== next.iconName) parts.push('name');
+  if (prev.background !== next.background) {
+    parts.push(`bg:${changedKeys(prev.background, next.background).join(',')}`);
+  }
+  if (prev.layers !== next.layers) {
+    if (prev.layers.length !== next.layers.length) return null;
+    for (let i = 0; i < next.layers.length; i++) {
+      const a = prev.layers[i];
+      const b = next.layers[i];
+      if (a === b) continue;
+      if (a.id !== b.id) return null;
+      const keys = changedKeys(a, b);
+      if (keys.includes('order') || keys.includes('parentId')) return null;
+      parts.push(`${b.id}:${keys.join(',')}`);
+    }
+  }
+  if (parts.length > 0 && parts.every((p) => p.endsWith(':collapsed'))) return IGNORE;
+  return parts.join('|');
+}
+
+// ─── Blob URL lifetime ────────────────────────────────────────────────────────
+// Removing a layer must not revoke its blob URL while an undo step can still
+// bring the layer back. URLs are revoked once no snapshot references them.
+// The render engine registers a release hook so it can drop the images it
+// decoded from a revoked URL; the store never imports the engine itself.
+
+let releaseHook: (urls: string[]) => void = () => {};
+
+/**
+ * Registers the callback that runs with every batch of revoked blob URLs.
+ */
+export function onBlobUrlsRevoked(fn: (urls: string[]) => void) {
+  releaseHook = fn;
+}
+
+/**
+ * Revokes blob URLs and tells the release hook about them.
+ */
+export function revokeBlobUrls(urls: string[]) {
+  if (urls.length === 0) return;
+  urls.forEach((url) => URL.revokeObjectURL(url));
+  releaseHook(urls);
+}
+
+function collectBlobUrls(snapshot: HistorySnapshot, into = new Set<string>()): Set<string> {
+  for (const l of snapshot.layers) if (l.blobUrl) into.add(l.blobUrl);
+  return into;
+}
+
+function releaseEntries(dropped: HistoryEntry[]) {
+  if (dropped.length === 0) return;
+  const candidates = new Set<string>();
+  dropped.forEach((e) => collectBlobUrls(e.snapshot, candidates));
+  if (candidates.size === 0) return;
+
+  const live = collectBlobUrls(capture());
+  if (baseline) collectBlobUrls(baseline, live);
+  undoStack.forEach((e) => collectBlobUrls(e.snapshot, live));
+  redoStack.forEach((e) => collectBlobUrls(e.snapshot, live));
+
+  revokeBlobUrls([...candidates].filter((url) => !live.has(url)));
+}
+
+// ─── Recording ────────────────────────────────────────────────────────────────
+
+function record(prev: HistorySnapshot, next: HistorySnapshot, mergeable = true) {
+  const diffKey = coalesceKey(prev, next);
+  if (diffKey === IGNORE) return;
+  const key = mergeable ? diffKey : null;
+
+  const now = performance.now();
+  const last = undoStack[undoStack.length - 1];
+  const merge = key !== null && last?.key === key && now - lastRecordTime < COALESCE_MS;
+  lastRecordTime = now;
+
+  // Merging keeps the older snapshot — one undo jumps back to before the scrub.
+  if (!merge) undoStack.push({ snapshot: prev, key });
+
+  const dropped = redoStack.splice(0);
+  if (undoStack.length > MAX_HISTORY) dropped.push(...undoStack.splice(0, undoStack.length - MAX_HISTORY));
+  releaseEntries(dropped);
+  syncFlags();
+}
+
+function handleChange() {
+  if (restoring || !baseline) return;
+  // Inside a transaction the baseline stays pinned at the pre-transaction state
+  if (transactionDepth > 0) return;
+  const next = capture();
+  if (sameSnapshot(baseline, next)) return;
+  const prev = baseline;
+  baseline = next;
+  record(prev, next);
+}
+
+function restore(snapshot: HistorySnapshot) {
+  restoring = true;
+  try {
+    $iconName.set(snapshot.iconName);
+    $layers.set(snapshot.layers);
+    $background.set(snapshot.background);
+    $iconModified.set(true);
+  } finally {
+    restoring = false;
+  }
+  baseline = capture();
+  lastRecordTime = 0;
+
+  const selectedId = $selectedLayerId.get();
+  if (selectedId && !snapshot.layers.some((l) => l.id === selectedId)) selectLayer(null);
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Starts observing the document atoms. Call once at startup.
+ */
+export function initHistory() {
+  if (initialized) return;
+  initialized = true;
+  baseline = capture();
+  $layers.listen(handleChange);
+  $background.listen(handleChange);
+  $iconName.listen(handleChange);
+}
+
+/**
+ * Opens a transaction: every change until the matching commitTransaction()
+ * collapses into a single undo step. Transactions nest.
+ */
+export function beginTransaction() {
+  if (transactionDepth === 0) baseline = capture();
+  transactionDepth += 1;
+}
+
+export function commitTransaction() {
+  if (transactionDepth === 0) return;
+  transactionDepth -= 1;
+  if (transactionDepth > 0 || !baseline) return;
+  const next = capture();
+  if (sameSnapshot(baseline, next)) return;
+  const prev = baseline;
+  baseline = next;
+  // Transactions always form their own step, never merged with a neighbour
+  record(prev, next, false);
+}
+
+/**
+ * Runs a synchronous multi-step mutation as one undo step.
+ */
+export function transaction<T>(fn: () => T): T {
+  beginTransaction();
+  try {
+    return fn();
+  } finally {
+    commitTransaction();
+  }
+}
+
+export function undo() {
+  if (transactionDepth > 0) return;
+  const entry = undoStack.pop();
+  if (!entry) return;
+  redoStack.push({ snapshot: capture(), key: null });
+  restore(entry.snapshot);
+  syncFlags();
+}
+
+export function redo() {
+  if (transactionDepth > 0) return;
+  const entry = redoStack.pop();
+  if (!entry) return;
+  undoStack.push({ snapshot: capture(), key: null });
+  restore(entry.snapshot);
+  syncFlags();
+}
+
+/**
+ * Drops all history (e.g. after loading a document) and revokes blob URLs that
+ * only the discarded steps, or the `replaced` layers, were keeping alive.
+ * Pass the previous document's layers when loading one in their place.
+ */
+export function resetHistory(replaced: Layer[] = []) {
+  const dropped = [...undoStack.splice(0), ...redoStack.splice(0)];
+  if (replaced.length > 0) dropped.push({ snapshot: { ...capture(), layers: replaced }, key: null });
+  transactionDepth = 0;
+  lastRecordTime = 0;
+  baseline = capture();
+  releaseEntries(dropped);
+  syncFlags();
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  $layers, createLayer, createGroup, reorderLayer, removeLayer, moveLayerToGroup, bgColorsFromHueTint,
+} from './iconStore';
+import type { Layer } from '../types/index';
+
+function layer(name: string, order: number, parentId: string | null = null): Layer {
+  return { ...createLayer(name, parentId), id: name, order };
+}
+
+function group(name: string, order: number, parentId: string | null = null): Layer {
+  return { ...createGroup(name, parentId), id: name, order };
+}
+
+/** Ids of `parentId`'s children, top first (the layer panel's order). */
+function stack(parentId: string | null): string[] {
+  return $layers.get()
+    .filter((l) => l.parentId === parentId)
+    .sort((a, b) => b.order - a.order)
+    .map((l) => l.id);
+}
+
+function orderOf(id: string): number | undefined {
+  return $layers.get().find((l) => l.id === id)?.order;
+}
+
+beforeEach(() => {
+  $layers.set([]);
+});
+
+describe('reorderLayer', () => {
+  beforeEach(() => {
+    $layers.set([layer('a', 0), layer('b', 1), layer('c', 2)]);
+  });
+
+  it('drops a layer before or after the target', () => {
+    reorderLayer('a', 'c', 'before');
+    expect(stack(null)).toEqual(['a', 'c', 'b']);
+    reorderLayer('a', 'b', 'after');
+    expect(stack(null)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('reassigns dense orders, top highest', () => {
+    $layers.set([layer('a', 3), layer('b', 7), layer('c', 12)]);
+    reorderLayer('c', 'a', 'after');
+    expect(['b', 'a', 'c'].map(orderOf)).toEqual([2, 1, 0]);
+  });
+
+  it('leaves other groups alone', () => {
+    $layers.set([...$layers.get(), group('g', 3), layer('x', 5, 'g'), layer('y', 9, 'g')]);
+    reorderLayer('a', 'c', 'before');
+    expect(['g', 'x', 'y'].map(orderOf)).toEqual([3, 5, 9]);
+  });
+
+  it('ignores a target outside the layer\'s group', () => {
+    $layers.set([...$layers.get(), group('g', 3), layer('x', 0, 'g')]);
+    const before = $layers.get();
+    reorderLayer('a', 'x', 'before');
+    expect($layers.get()).toBe(before);
+  });
+});
+
+describe('removeLayer', () => {
+  it('removes a group with all its descendants', () => {
+    $layers.set([
+      group('g', 1),
+      layer('x', 0, 'g'),
+      group('h', 1, 'g'),
+      layer('y', 0, 'h'),
+      layer('keep', 0),
+    ]);
+    removeLayer('g');
+    expect($layers.get().map((l) => l.id)).toEqual(['keep']);
+  });
+
+  it('removes a single layer only', () => {
+    $layers.set([group('g', 0), layer('x', 0, 'g'), layer('y', 1, 'g')]);
+    removeLayer('x');
+    expect($layers.get().map((l) => l.id)).toEqual(['g', 'y']);
+  });
+});
+
+describe('moveLayerToGroup', () => {
+  beforeEach(() => {
+    $layers.set([
+      group('g', 0),
+      group('h', 0, 'g'),
+      layer('x', 0, 'h'),
+      layer('a', 1),
+    ]);
+  });
+
+  it('does not move a group into itself', () => {
+    const before = $layers.get();
+    moveLayerToGroup('g', 'g');
+    expect($layers.get()).toBe(before);
+  });
+
+  it('does not move a group into its own subtree', () => {
+    const before = $layers.get();
+    moveLayerToGroup('g', 'h');
+    expect($layers.get()).toBe(before);
+  });
+
+  it('puts the layer on top of its new siblings', () => {
+    moveLayerToGroup('a', 'g');
+    expect(stack('g')).toEqual(['a', 'h']);
+    expect(stack(null)).toEqual(['g']);
+  });
+
+  it('does not collide with a sibling order after a gap', () => {
+    // Orders 0 and 4 — the sibling count (2) would land below y
+    $layers.set([group('g', 0), layer('x', 0, 'g'), layer('y', 4, 'g'), layer('a', 1)]);
+    moveLayerToGroup('a', 'g');
+    expect(orderOf('a')).toBe(5);
+    expect(stack('g')).toEqual(['a', 'y', 'x']);
+  });
+
+  it('moves a layer back to the root', () => {
+    moveLayerToGroup('x', null);
+    expect(stack(null)).toEqual(['x', 'a', 'g']);
+    expect(stack('h')).toEqual([]);
+  });
+});
+
+describe('bgColorsFromHueTint', () => {
+  it('keeps the hue and goes from vivid to white as tint rises', () => {
+    expect(bgColorsFromHueTint(220, 0)).toEqual(['hsl(220, 85%, 48%)', 'hsl(220, 68%, 61%)']);
+    expect(bgColorsFromHueTint(220, 100)).toEqual(['hsl(220, 0%, 100%)', 'hsl(220, 0%, 100%)']);
+  });
+
+  it('darkens with brightness, never below 5%', () => {
+    expect(bgColorsFromHueTint(30, 0, 50)).toEqual(['hsl(30, 85%, 24%)', 'hsl(30, 68%, 31%)']);
+    expect(bgColorsFromHueTint(30, 100, 0)).toEqual(['hsl(30, 0%, 5%)', 'hsl(30, 0%, 5%)']);
+  });
+});
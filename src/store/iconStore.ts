@@ -1,5 +1,6 @@
 import { atom, computed } from 'nanostores';
 import { selectLayer } from './uiStore';
+import { DEFAULT_REFRACTION, DEFAULT_FRESNEL, DEFAULT_GLARE } from '../engine/glassOptics';
 import type {
   Layer,
   BackgroundConfig,
@@ -7,6 +8,7 @@ import type {
   BlendMode,
   LiquidGlassConfig,
   FillConfig,
+  LayerLayout,
 } from '../types/index';
 
 function generateId(): string {
@@ -23,9 +25,16 @@ function defaultLiquidGlass(): LiquidGlassConfig {
     dark: { enabled: false, value: 20 },
     mono: { enabled: false, value: 0 },
     shadow: { type: 'chromatic', enabled: true, value: 30 },
+    refraction: { ...DEFAULT_REFRACTION },
+    fresnel: { ...DEFAULT_FRESNEL },
+    glare: { ...DEFAULT_GLARE },
   };
 }
 
+function defaultLayout(scale: number): LayerLayout {
+  return { x: 0, y: 0, scale, rotation: 0, scaleX: 100, scaleY: 100, flipX: false, flipY: false };
+}
+
 export function createLayer(name: string, parentId: string | null = null): Layer {
   return {
     id: generateId(),
@@ -38,7 +47,7 @@ export function createLayer(name: string, parentId: string | null = null): Layer
     blendMode: 'normal' as BlendMode,
     fill: { type: 'none' },
     liquidGlass: defaultLiquidGlass(),
-    layout: { x: 0, y: 0, scale: 80 },
+    layout: defaultLayout(80),
   };
 }
 
@@ -54,8 +63,10 @@ export function createGroup(name: string, parentId: string | null = null): Layer
     opacity: 100,
     blendMode: 'normal' as BlendMode,
     fill: { type: 'none' },
-    liquidGlass: defaultLiquidGlass(),
-    layout: { x: 0, y: 0, scale: 80 },
+    // Off by default: children keep their own glass. Turned on, the group
+    // renders as one glass piece on the union of its children.
+    liquidGlass: { ...defaultLiquidGlass(), enabled: false },
+    layout: defaultLayout(80),
   };
 }
 
@@ -104,7 +115,7 @@ export function addLayer(blobUrl?: string, sourceFile?: string, parentId: string
   const isRaster = sourceFile && /\.(png|jpe?g|webp)$/i.test(sourceFile);
   if (isRaster) {
     layer.liquidGlass = { ...layer.liquidGlass, enabled: false };
-    layer.layout = { x: 0, y: 0, scale: 100 };
+    layer.layout = defaultLayout(100);
   }
 
   $layers.set([...layers, layer]);
@@ -140,8 +151,8 @@ export function removeLayer(id: string) {
       }
     }
   }
-  // Revoke blob URLs to free memory
-  layers.filter((l) => toRemove.has(l.id) && l.blobUrl).forEach((l) => URL.revokeObjectURL(l.blobUrl!));
+  // Blob URLs are not revoked here — undo history may still restore these layers.
+  // history.ts revokes them once no undo/redo step references them.
   $layers.set(layers.filter((l) => !toRemove.has(l.id)));
   $iconModified.set(true);
 }
@@ -159,8 +170,9 @@ export function updateLayerLiquidGlass(id: string, lg: Partial<LiquidGlassConfig
 }
 
 export function updateAllLayersLiquidGlass(updates: Partial<LiquidGlassConfig>) {
+  // Group glass is set per group — "all" means every layer
   $layers.set(
-    $layers.get().map((l) => ({
+    $layers.get().map((l) => (l.type === 'group' ? l : {
       ...l,
       liquidGlass: { ...l.liquidGlass, ...updates }
     }))
@@ -172,13 +184,34 @@ export function updateLayerFill(id: string, fill: FillConfig) {
   updateLayer(id, { fill });
 }
 
+/**
+ * True when `layerId` sits somewhere inside `ancestorId`'s subtree. Stops at
+ * a parent cycle instead of looping.
+ */
+export function isDescendantOf(layers: Layer[], layerId: string, ancestorId: string): boolean {
+  const byId = new Map(layers.map((l) => [l.id, l]));
+  const seen = new Set<string>();
+  let parentId = byId.get(layerId)?.parentId ?? null;
+  while (parentId !== null && !seen.has(parentId)) {
+    if (parentId === ancestorId) return true;
+    seen.add(parentId);
+    parentId = byId.get(parentId)?.parentId ?? null;
+  }
+  return false;
+}
+
 export function moveLayerToGroup(layerId: string, targetGroupId: string | null) {
   const layers = $layers.get();
   const layer = layers.find(l => l.id === layerId);
-  if (!layer) return;
-  // Put at the end of the new (or root) group
-  const maxOrder = layers.filter(l => l.parentId === targetGroupId).length;
-  updateLayer(layerId, { parentId: targetGroupId, order: maxOrder });
+  if (!layer || layer.parentId === targetGroupId) return;
+  // A group can't move into itself or its own subtree — it would form a cycle
+  // and drop out of the tree
+  if (targetGroupId !== null && (layerId === targetGroupId || isDescendantOf(layers, targetGroupId, layerId))) return;
+  // Put on top of the new (or root) group. Orders can have gaps after
+  // removals, so count-based orders could collide with an existing sibling.
+  const siblings = layers.filter(l => l.parentId === targetGroupId);
+  const maxOrder = siblings.length > 0 ? Math.max(...siblings.map(l => l.order)) : -1;
+  updateLayer(layerId, { parentId: targetGroupId, order: maxOrder + 1 });
 }
 
 export function toggleLayerVisibility(id: string) {
@@ -234,6 +267,16 @@ export function updateBackground(bg: Partial<BackgroundConfig>) {
   $iconModified.set(true);
 }
 
+/**
+ * Swaps in a whole document (imported or opened from a file).
+ */
+export function replaceDocument(doc: { name: string; layers: Layer[]; background: BackgroundConfig }) {
+  $iconName.set(doc.name.trim() || 'Untitled');
+  $layers.set(doc.layers);
+  $background.set(doc.background);
+  $iconModified.set(true);
+}
+
 export function resetDocument() {
   $iconName.set('Untitled');
   $iconModified.set(false);
@@ -0,0 +1,112 @@
+import type { Layer, BackgroundConfig, AppearanceMode, ExportSettings } from '../types/index';
+
+// ─── Document schema migrations ───────────────────────────────────────────────
+// Every stored document (the localStorage slot, project files) carries the
+// schema version it was written with. Loading runs it through each step from
+// that version up to CURRENT_VERSION, so older data is upgraded instead of
+// dropped. Steps are frozen once shipped: they must not import live defaults,
+// because those keep changing with later versions.
+//
+// To change the schema: bump CURRENT_VERSION and add a step keyed by the
+// version it upgrades *from*.
+
+export const CURRENT_VERSION = 4;
+
+/** Document payload as stored, after migration to CURRENT_VERSION. */
+export interface PersistedDocument {
+  iconName: string;
+  layers: Layer[];
+  background: BackgroundConfig;
+  ui?: {
+    appearanceMode: AppearanceMode;
+    lightAngle: number;
+    zoom: number;
+  };
+  /** Last used image export settings (absent in older documents) */
+  exportSettings?: ExportSettings;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+type RawDocument = Record<string, unknown>;
+type Migration = (data: RawDocument) => RawDocument;
+
+function isRaw(v: unknown): v is RawDocument {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+/** `v` if it is an object, else an empty one — for spreading nested settings. */
+function raw(v: unknown): RawDocument {
+  return isRaw(v) ? v : {};
+}
+
+/** The stored layers; entries that are not objects cannot be upgraded and are dropped. */
+function rawLayers(data: RawDocument): RawDocument[] {
+  return Array.isArray(data.layers) ? data.layers.filter(isRaw) : [];
+}
+
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 → v2: SDF glass parameters (refraction / fresnel / glare) get explicit values
+  1: (data) => ({
+    ...data,
+    layers: rawLayers(data).map((l) => {
+      const lg = raw(l.liquidGlass);
+      return {
+        ...l,
+        liquidGlass: {
+          ...lg,
+          refraction: { enabled: true, thickness: 20, factor: 1.4, dispersion: 7, ...raw(lg.refraction) },
+          fresnel: { enabled: true, range: 30, factor: 20, hardness: 20, ...raw(lg.fresnel) },
+          glare: { enabled: true, range: 30, convergence: 50, factor: 90, angle: -45, ...raw(lg.glare) },
+        },
+      };
+    }),
+  }),
+  // v2 → v3: layouts get rotation, per-axis scale and flips
+  2: (data) => ({
+    ...data,
+    layers: rawLayers(data).map((l) => ({
+      ...l,
+      layout: { rotation: 0, scaleX: 100, scaleY: 100, flipX: false, flipY: false, ...raw(l.layout) },
+    })),
+  }),
+  // v3 → v4: group glass is rendered now — groups saved with it on (it used to
+  // be ignored) turn it off so their children keep looking the same
+  3: (data) => ({
+    ...data,
+    layers: rawLayers(data).map((l) =>
+      l.type === 'group' ? { ...l, liquidGlass: { ...raw(l.liquidGlass), enabled: false } } : l),
+  }),
+};
+
+/**
+ * Upgrades a stored document from `version` to CURRENT_VERSION.
+ * `migrated` is true when at least one step ran — callers keep a backup of the
+ * original payload in that case. Throws MigrationError for versions this build
+ * cannot read (newer than CURRENT_VERSION, or unknown).
+ */
+export function migrateDocument(version: unknown, data: unknown): { data: PersistedDocument; migrated: boolean } {
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new MigrationError(`Unknown document version "${String(version)}".`);
+  }
+  if (version > CURRENT_VERSION) {
+    throw new MigrationError(
+      `This document was saved by a newer version of Liquid Composer (v${version}; this build reads up to v${CURRENT_VERSION}).`,
+    );
+  }
+  if (!isRaw(data)) throw new MigrationError('The document data is missing.');
+
+  let current = data;
+  for (let v = version; v < CURRENT_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new MigrationError(`No migration from document version ${v} to ${v + 1}.`);
+    current = step(current);
+  }
+  // Steps only add what their version introduced; the rest is trusted as stored
+  return { data: current as unknown as PersistedDocument, migrated: version < CURRENT_VERSION };
+}
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { createLayer } from './iconStore';
+import { CURRENT_VERSION } from './migrations';
+import type { Layer } from '../types/index';
+
+// Thumbnails need a canvas — rendering is not under test here
+vi.mock('../engine/renderClient', () => ({ renderIcon: vi.fn() }));
+
+class MemoryStorage {
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  key(i: number) { return [...this.items.keys()][i] ?? null; }
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+  removeItem(key: string) { this.items.delete(key); }
+  clear() { this.items.clear(); }
+}
+
+// Auto-save timers are collected, not scheduled — `runTimers` fires them
+const timers = new Map<number, () => unknown>();
+let nextTimer = 1;
+
+async function runTimers() {
+  const due = [...timers.values()];
+  timers.clear();
+  await Promise.all(due.map((fn) => fn()));
+}
+
+/** Fresh copies of the store modules over the same database, like a page reload. */
+async function reload() {
+  vi.resetModules();
+  return {
+    ...(await import('./persistence')),
+    ...(await import('./iconStore')),
+    ...(await import('./db')),
+    ...(await import('./history')),
+  };
+}
+
+function storedDocument(id: string, iconName: string, layers: Layer[] = [], version = CURRENT_VERSION) {
+  const now = Date.now();
+  return {
+    id,
+    version,
+    data: { iconName, layers, background: { type: 'solid' as const, color: '#000000' } },
+    createdAt: now,
+    updatedAt: now,
+    thumbnail: null,
+  };
+}
+
+async function blobText(url: string | undefined) {
+  return url ? (await fetch(url)).text() : null;
+}
+
+beforeEach(() => {
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  vi.stubGlobal('window', {
+    addEventListener: () => {},
+    setTimeout: (fn: () => unknown) => {
+      timers.set(nextTimer, fn);
+      return nextTimer++;
+    },
+    clearTimeout: (id: number) => timers.delete(id),
+    alert: vi.fn(),
+  });
+  // Saving reports the missing thumbnail canvas
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  timers.clear();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('initPersistence', () => {
+  it('restores layer files of the last active document', async () => {
+    const { putDocument, setAsset, assetKey } = await reload();
+    const layer = { ...createLayer('Mark'), id: 'mark' };
+    const now = Date.now();
+    await putDocument({
+      id: 'doc-1',
+      version: CURRENT_VERSION,
+      data: { iconName: 'Saved', layers: [layer], background: { type: 'solid', color: '#000000' } },
+      createdAt: now,
+      updatedAt: now,
+      thumbnail: null,
+    });
+    await setAsset(assetKey('doc-1', 'mark'), new Blob(['<svg/>'], { type: 'image/svg+xml' }));
+    localStorage.setItem('liquid-composer-active-document', 'doc-1');
+
+    const app = await reload();
+    await app.initPersistence();
+
+    expect(app.$activeDocumentId.get()).toBe('doc-1');
+    expect(app.$iconName.get()).toBe('Saved');
+    const [restored] = app.$layers.get();
+    expect(restored.id).toBe('mark');
+    expect(await blobText(restored.blobUrl)).toBe('<svg/>');
+  });
+
+  it('keeps a new layer\'s file across a reload', async () => {
+    const first = await reload();
+    await first.initPersistence();
+    const docId = first.$activeDocumentId.get()!;
+
+    const url = URL.createObjectURL(new Blob(['<svg id="new"/>'], { type: 'image/svg+xml' }));
+    const id = first.addLayer(url, 'new.svg');
+    await vi.waitFor(async () => {
+      expect(await first.getAsset(first.assetKey(docId, id))).not.toBeNull();
+    });
+    await runTimers();
+
+    const second = await reload();
+    await second.initPersistence();
+    const restored = second.$layers.get().find((l) => l.id === id);
+    expect(restored?.blobUrl).not.toBe(url);
+    expect(await blobText(restored?.blobUrl)).toBe('<svg id="new"/>');
+  });
+
+  it('deletes the stored file of a removed layer', async () => {
+    const app = await reload();
+    await app.initPersistence();
+    const docId = app.$activeDocumentId.get()!;
+
+    const id = app.addLayer(URL.createObjectURL(new Blob(['<svg/>'])), 'gone.svg');
+    await vi.waitFor(async () => {
+      expect(await app.listAssetKeys(docId)).toEqual([app.assetKey(docId, id)]);
+    });
+    app.removeLayer(id);
+    await vi.waitFor(async () => {
+      expect(await app.listAssetKeys(docId)).toEqual([]);
+    });
+  });
+
+  it('opens another document when the last one cannot be migrated', async () => {
+    const { putDocument } = await reload();
+    await putDocument(storedDocument('doc-1', 'Readable'));
+    await putDocument(storedDocument('doc-2', 'From the future', [], CURRENT_VERSION + 1));
+    localStorage.setItem('liquid-composer-active-document', 'doc-2');
+
+    const app = await reload();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await app.initPersistence();
+    expect(app.$activeDocumentId.get()).toBe('doc-1');
+    expect(app.$iconName.get()).toBe('Readable');
+  });
+});
+
+describe('switchDocument', () => {
+  it('revokes the layer files of the document it switches away from', async () => {
+    const { putDocument, setAsset, assetKey } = await reload();
+    await putDocument(storedDocument('doc-1', 'First', [{ ...createLayer('Mark'), id: 'mark' }]));
+    await putDocument(storedDocument('doc-2', 'Second'));
+    await setAsset(assetKey('doc-1', 'mark'), new Blob(['<svg/>'], { type: 'image/svg+xml' }));
+    localStorage.setItem('liquid-composer-active-document', 'doc-1');
+
+    const app = await reload();
+    await app.initPersistence();
+    const url = app.$layers.get()[0].blobUrl!;
+    const released = vi.fn();
+    app.onBlobUrlsRevoked(released);
+    const revoke = vi.spyOn(URL, 'revokeObjectURL');
+
+    await app.switchDocument('doc-2');
+    expect(app.$activeDocumentId.get()).toBe('doc-2');
+    expect(revoke).toHaveBeenCalledWith(url);
+    expect(released).toHaveBeenCalledWith([url]);
+  });
+
+  it('keeps the current document when the other one cannot be migrated', async () => {
+    const { putDocument } = await reload();
+    await putDocument(storedDocument('doc-1', 'First'));
+    await putDocument(storedDocument('doc-2', 'From the future', [], CURRENT_VERSION + 1));
+    localStorage.setItem('liquid-composer-active-document', 'doc-1');
+
+    const app = await reload();
+    await app.initPersistence();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await app.switchDocument('doc-2');
+    expect(window.alert).toHaveBeenCalledWith(expect.stringContaining('"From the future" could not be opened.'));
+    expect(app.$activeDocumentId.get()).toBe('doc-1');
+    expect(app.$iconName.get()).toBe('First');
+  });
+});
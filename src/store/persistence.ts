@@ -1,148 +1,345 @@
 import { atom } from 'nanostores';
-import { $layers, $background, $iconName, bgColorsFromHueTint } from './iconStore';
-import { $appearanceMode, $lightAngle, $zoom, setAppearanceMode, setLightAngle, setZoom, $persistenceEnabled } from './uiStore';
-import type { Layer, BackgroundConfig, AppearanceMode } from '../types/index';
+import { $layers, $background, $iconName, $iconModified, bgColorsFromHueTint } from './iconStore';
+import {
+  $appearanceMode, $lightAngle, $zoom, setAppearanceMode, setLightAngle, setZoom, $persistenceEnabled, selectLayer,
+} from './uiStore';
+import { resetHistory } from './history';
+import { $exportSettings, setExportSettings, normalizeExportSettings, defaultExportSettings } from './exportStore';
+import { CURRENT_VERSION, MigrationError, migrateDocument } from './migrations';
+import type { PersistedDocument } from './migrations';
+import {
+  assetKey, setAsset, getAsset, removeAsset, listAssetKeys,
+  putDocument, getDocument, listDocuments, deleteDocumentRecord, clearDatabase,
+} from './db';
+import type { StoredDocument } from './db';
+import { renderIcon } from '../engine/renderClient';
+import type { Layer } from '../types/index';
 
-const STORAGE_KEY = 'liquid-composer-state';
-const ASSET_DB_NAME = 'liquid-composer-assets';
-const ASSET_STORE_NAME = 'images';
-const CURRENT_VERSION = 1;
+// ─── Document library ─────────────────────────────────────────────────────────
+// Every document lives in IndexedDB (see db.ts). Exactly one is active: it is
+// loaded into the document atoms, auto-saved back to its record, and its layer
+// files are synced into its own asset namespace.
+
+// Single-document slot used before the library existed — imported once
+const LEGACY_STORAGE_KEY = 'liquid-composer-state';
+// Pre-migration payloads are kept under `${BACKUP_KEY_PREFIX}<version>`
+const BACKUP_KEY_PREFIX = `${LEGACY_STORAGE_KEY}.backup-v`;
+const ACTIVE_DOCUMENT_KEY = 'liquid-composer-active-document';
+const THUMBNAIL_SIZE = 256;
+const SAVE_DELAY_MS = 3000;
+
+export interface DocumentSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  thumbnailUrl: string | null;
+}
 
 /**
- * Tracks if there are changes that haven't been synced to localStorage yet.
+ * Tracks if there are changes that haven't been synced to IndexedDB yet.
  */
 export const $hasUnsavedChanges = atom<boolean>(false);
+export const $activeDocumentId = atom<string | null>(null);
+/** All documents, most recently edited first. */
+export const $documents = atom<DocumentSummary[]>([]);
+
+// Layer ids whose source file is already stored for the active document
+let persistedAssetIds = new Set<string>();
+let saveTimeout: number | null = null;
+// True while a document is being swapped into the atoms — not a user edit
+let loading = false;
+let initialized = false;
+
+function generateDocumentId(): string {
+  return `doc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+function defaultDocument(): PersistedDocument {
+  return {
+    iconName: 'Untitled',
+    layers: [],
+    background: { type: 'gradient', hue: 220, tint: 20, colors: bgColorsFromHueTint(220, 20), angle: 135 },
+    ui: { appearanceMode: 'default', lightAngle: 135, zoom: 100 },
+    exportSettings: defaultExportSettings(),
+  };
+}
 
-interface StoredAppData {
-  version: number;
-  data: {
-    iconName: string;
-    layers: Layer[];
-    background: BackgroundConfig;
+function captureDocument(): Required<PersistedDocument> {
+  return {
+    iconName: $iconName.get(),
+    layers: $layers.get().map(l => ({
+      ...l,
+      blobUrl: undefined, // Don't persist temporary URLs
+    })),
+    background: $background.get(),
     ui: {
-      appearanceMode: AppearanceMode;
-      lightAngle: number;
-      zoom: number;
+      appearanceMode: $appearanceMode.get(),
+      lightAngle: $lightAngle.get(),
+      zoom: $zoom.get(),
+    },
+    exportSettings: $exportSettings.get(),
+  };
+}
+
+/**
+ * `doc` must carry the live layers — the persisted copies have no blob URLs,
+ * so their artwork would be missing (and filled image layers would paint a
+ * full squircle).
+ */
+async function renderThumbnail(doc: PersistedDocument): Promise<Blob | null> {
+  try {
+    const canvas = document.createElement('canvas');
+    await renderIcon(canvas, {
+      layers: doc.layers,
+      background: doc.background,
+      lightAngle: doc.ui?.lightAngle ?? 135,
+      appearanceMode: 'default',
+      size: THUMBNAIL_SIZE,
+    });
+    return await new Promise<Blob | null>((r) => canvas.toBlob(r, 'image/png'));
+  } catch (e) {
+    console.warn('Failed to render document thumbnail:', e);
+    return null;
+  }
+}
+
+// Thumbnail object URLs handed out through $documents, keyed by document id
+const thumbnailUrls = new Map<string, { blob: Blob; url: string }>();
+
+/**
+ * Reloads $documents from IndexedDB.
+ */
+export async function refreshDocuments() {
+  const records = await listDocuments();
+  const seen = new Set<string>();
+  const summaries = records
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map((r): DocumentSummary => {
+      seen.add(r.id);
+      let thumb = thumbnailUrls.get(r.id);
+      if (r.thumbnail && thumb?.blob !== r.thumbnail) {
+        if (thumb) URL.revokeObjectURL(thumb.url);
+        thumb = { blob: r.thumbnail, url: URL.createObjectURL(r.thumbnail) };
+        thumbnailUrls.set(r.id, thumb);
+      }
+      return { id: r.id, name: r.data.iconName, updatedAt: r.updatedAt, thumbnailUrl: thumb?.url ?? null };
+    });
+  for (const [id, thumb] of thumbnailUrls) {
+    if (!seen.has(id)) {
+      URL.revokeObjectURL(thumb.url);
+      thumbnailUrls.delete(id);
     }
   }
+  $documents.set(summaries);
 }
 
+// ─── Saving ───────────────────────────────────────────────────────────────────
+
 /**
- * Minimal IDB wrapper to store Blobs.
+ * Saves the active document (and a fresh thumbnail) to IndexedDB.
  */
-const dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
-  const req = indexedDB.open(ASSET_DB_NAME, 1);
-  req.onupgradeneeded = () => req.result.createObjectStore(ASSET_STORE_NAME);
-  req.onsuccess = () => resolve(req.result);
-  req.onerror = () => reject(req.error);
-});
+async function saveState() {
+  const id = $activeDocumentId.get();
+  if (!$persistenceEnabled.get() || !id) return;
+  if (saveTimeout) { window.clearTimeout(saveTimeout); saveTimeout = null; }
 
-async function setAsset(id: string, blob: Blob) {
-  const db = await dbPromise;
-  return new Promise((r, rej) => {
-    const tx = db.transaction(ASSET_STORE_NAME, 'readwrite');
-    tx.objectStore(ASSET_STORE_NAME).put(blob, id);
-    tx.oncomplete = r;
-    tx.onerror = rej;
-  });
+  const data = captureDocument();
+  const liveLayers = $layers.get();
+  try {
+    const existing = await getDocument(id);
+    await putDocument({
+      id,
+      version: CURRENT_VERSION,
+      data,
+      createdAt: existing?.createdAt ?? Date.now(),
+      updatedAt: Date.now(),
+      thumbnail: (await renderThumbnail({ ...data, layers: liveLayers })) ?? existing?.thumbnail ?? null,
+      backup: existing?.backup,
+    });
+    // Only clear the flag if nothing changed while the save was in flight
+    if ($activeDocumentId.get() === id && !saveTimeout) $hasUnsavedChanges.set(false);
+    await refreshDocuments();
+  } catch (e) {
+    console.warn('Failed to save document:', e);
+  }
 }
 
-async function getAsset(id: string): Promise<Blob | null> {
-  const db = await dbPromise;
-  return new Promise((r) => {
-    const tx = db.transaction(ASSET_STORE_NAME, 'readonly');
-    const req = tx.objectStore(ASSET_STORE_NAME).get(id);
-    req.onsuccess = () => r(req.result);
-    req.onerror = () => r(null);
-  });
+/**
+ * Writes pending changes now instead of waiting for the auto-save delay.
+ * Returns false if there are unsaved changes that could not be kept (auto-save
+ * is off) and the user chose not to discard them.
+ */
+async function flushPendingSave(): Promise<boolean> {
+  if (!$hasUnsavedChanges.get()) return true;
+  if (!$persistenceEnabled.get()) {
+    return window.confirm('Auto-save is off. Discard unsaved changes to the current document?');
+  }
+  await saveState();
+  return true;
 }
 
-async function removeAsset(id: string) {
-    const db = await dbPromise;
-    const tx = db.transaction(ASSET_STORE_NAME, 'readwrite');
-    tx.objectStore(ASSET_STORE_NAME).delete(id);
-}
+// ─── Loading ──────────────────────────────────────────────────────────────────
 
 /**
- * Saves the current app state to localStorage and IndexedDB.
+ * Swaps a stored document into the document atoms. A document that cannot be
+ * migrated is reported and leaves the current one in place; returns false then.
  */
-async function saveState() {
-  if (!$persistenceEnabled.get()) return;
+async function loadDocument(record: StoredDocument): Promise<boolean> {
+  let { data } = record;
+  try {
+    const result = migrateDocument(record.version, record.data);
+    data = result.data;
+    if (result.migrated) {
+      // Keep the oldest pre-migration payload, then store the upgraded one
+      await putDocument({
+        ...record,
+        version: CURRENT_VERSION,
+        data,
+        backup: record.backup ?? { version: record.version, data: record.data },
+      });
+    }
+  } catch (e) {
+    const name = typeof record.data?.iconName === 'string' ? record.data.iconName : record.id;
+    window.alert(`"${name}" could not be opened. ${e instanceof MigrationError ? e.message : 'Its data is damaged.'}`);
+    console.error(`Failed to migrate document "${record.id}":`, e);
+    return false;
+  }
 
-  const layers = $layers.get();
-  
-  const state: StoredAppData = {
-    version: CURRENT_VERSION,
-    data: {
-      iconName: $iconName.get(),
-      layers: layers.map(l => ({
-        ...l,
-        blobUrl: undefined, // Don't persist temporary URLs
-      })),
-      background: $background.get(),
-      ui: {
-        appearanceMode: $appearanceMode.get(),
-        lightAngle: $lightAngle.get(),
-        zoom: $zoom.get(),
+  // Restore Layer Assets from IDB
+  const layersWithBlobs = await Promise.all((data.layers || []).map(async (l) => {
+      if (l.type === 'layer') {
+          const blob = await getAsset(assetKey(record.id, l.id));
+          if (blob) {
+              return { ...l, blobUrl: URL.createObjectURL(blob) };
+          }
       }
+      return l;
+  }));
+
+  if (saveTimeout) { window.clearTimeout(saveTimeout); saveTimeout = null; }
+  const replaced = $layers.get();
+  loading = true;
+  try {
+    persistedAssetIds = new Set(layersWithBlobs.filter(l => l.blobUrl).map(l => l.id));
+    $activeDocumentId.set(record.id);
+    $iconName.set(data.iconName || 'Untitled');
+    $layers.set(layersWithBlobs as Layer[]);
+    if (data.background) $background.set(data.background);
+
+    if (data.ui) {
+      if (data.ui.appearanceMode) setAppearanceMode(data.ui.appearanceMode);
+      if (data.ui.lightAngle !== undefined) setLightAngle(data.ui.lightAngle);
+      if (data.ui.zoom !== undefined) setZoom(data.ui.zoom);
     }
-  };
-  
+    setExportSettings(normalizeExportSettings(data.exportSettings));
+  } finally {
+    loading = false;
+  }
+
+  selectLayer(null);
+  $iconModified.set(false);
+  $hasUnsavedChanges.set(false);
+  // The loaded document is the starting point — loading it is not an undo step.
+  // This also revokes the previous document's blob URLs.
+  resetHistory(replaced);
+  localStorage.setItem(ACTIVE_DOCUMENT_KEY, record.id);
+  return true;
+}
+
+/**
+ * Keeps a copy of a stored payload before it is migrated or overwritten.
+ * An existing backup for the same version is never replaced — it holds the
+ * oldest copy.
+ */
+function backupPayload(version: unknown, raw: string) {
+  const key = `${BACKUP_KEY_PREFIX}${String(version)}`;
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-    $hasUnsavedChanges.set(false);
-    
-    // We don't save blobs *every* sync here because we'd need the actual Blob/File object.
-    // Instead, we ensure the IDB is in sync when layers are added/removed.
+    if (localStorage.getItem(key) === null) localStorage.setItem(key, raw);
   } catch (e) {
-    console.warn('Failed to save state to localStorage:', e);
+    console.warn('Failed to back up persisted state:', e);
   }
 }
 
 /**
- * Loads and migrates state from localStorage and IndexedDB.
+ * Moves the pre-library localStorage document (and its un-namespaced assets)
+ * into the library as a regular document.
  */
-export async function initPersistence() {
-  const raw = localStorage.getItem(STORAGE_KEY);
-  if (raw) {
-    try {
-      const persisted = JSON.parse(raw) as StoredAppData;
-      
-      if (persisted.version === 1) {
-        const { data } = persisted;
-        
-        // Restore Layer Assets from IDB
-        const layersWithBlobs = await Promise.all((data.layers || []).map(async (l) => {
-            if (l.type === 'layer') {
-                const blob = await getAsset(l.id);
-                if (blob) {
-                    return { ...l, blobUrl: URL.createObjectURL(blob) };
-                }
-            }
-            return l;
-        }));
-
-        if (data.iconName) $iconName.set(data.iconName);
-        if (data.layers) $layers.set(layersWithBlobs as Layer[]);
-        if (data.background) $background.set(data.background);
-        
-        if (data.ui) {
-          if (data.ui.appearanceMode) setAppearanceMode(data.ui.appearanceMode);
-          if (data.ui.lightAngle !== undefined) setLightAngle(data.ui.lightAngle);
-          if (data.ui.zoom !== undefined) setZoom(data.ui.zoom);
-        }
-      }
-    } catch (e) {
-      console.error('Failed to parse persisted state:', e);
+async function importLegacyDocument() {
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) return;
+  let version: unknown = 'unknown';
+  try { version = JSON.parse(raw).version; } catch {}
+  backupPayload(version, raw);
+  try {
+    const persisted = JSON.parse(raw) as { version: number; data: PersistedDocument };
+    const { data } = migrateDocument(persisted.version, persisted.data);
+    const id = generateDocumentId();
+    for (const l of data.layers || []) {
+      if (l.type !== 'layer') continue;
+      const blob = await getAsset(l.id);
+      if (!blob) continue;
+      await setAsset(assetKey(id, l.id), blob);
+      await removeAsset(l.id);
     }
+    const now = Date.now();
+    await putDocument({ id, version: CURRENT_VERSION, data, createdAt: now, updatedAt: now, thumbnail: null });
+    localStorage.setItem(ACTIVE_DOCUMENT_KEY, id);
+  } catch (e) {
+    console.error('Failed to import the previously saved document:', e);
+  }
+  // The payload is backed up above either way
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+/**
+ * Loads the first of `records` that can be opened, or a new empty document if
+ * none can, so there is always an active document.
+ */
+async function loadFirstDocument(records: StoredDocument[]) {
+  for (const record of records) {
+    if (await loadDocument(record)) return;
+  }
+  await loadDocument(await createDocumentRecord(defaultDocument()));
+}
+
+async function createDocumentRecord(data: PersistedDocument): Promise<StoredDocument> {
+  const now = Date.now();
+  const record: StoredDocument = {
+    id: generateDocumentId(),
+    version: CURRENT_VERSION,
+    data,
+    createdAt: now,
+    updatedAt: now,
+    thumbnail: null,
+  };
+  await putDocument(record);
+  return record;
+}
+
+/**
+ * Loads the library and the last active document, then starts auto-saving.
+ */
+export async function initPersistence() {
+  if (initialized) return;
+  initialized = true;
+
+  try {
+    await importLegacyDocument();
+    const records = (await listDocuments()).sort((a, b) => b.updatedAt - a.updatedAt);
+    const lastId = localStorage.getItem(ACTIVE_DOCUMENT_KEY);
+    const last = records.find(r => r.id === lastId);
+    await loadFirstDocument(last ? [last, ...records.filter(r => r !== last)] : records);
+    await refreshDocuments();
+  } catch (e) {
+    console.error('Failed to load the document library:', e);
   }
 
   // Auto-save listeners (metadata only)
-  let timeout: number | null = null;
   const debouncedSave = () => {
+    if (loading) return;
     $hasUnsavedChanges.set(true);
-    if (timeout) window.clearTimeout(timeout);
-    timeout = window.setTimeout(saveState, 3000);
+    if (saveTimeout) window.clearTimeout(saveTimeout);
+    saveTimeout = window.setTimeout(saveState, SAVE_DELAY_MS);
   };
 
   // Prevent data loss on accidental close
@@ -153,30 +350,29 @@ export async function initPersistence() {
     }
   });
 
-  // Track which layer IDs already have assets saved in IDB (pre-populate from restored layers)
-  const persistedAssetIds = new Set<string>(
-    $layers.get().filter(l => l.blobUrl).map(l => l.id)
-  );
-
   // Sync blob assets to/from IDB whenever layers change
   $layers.listen(async (layers) => {
+    // Capture the namespace now — the active document may change mid-sync
+    const docId = $activeDocumentId.get();
+    const assetIds = persistedAssetIds;
+    if (!docId || loading) return;
     // Save new blob assets
     for (const l of layers) {
-      if (l.blobUrl && !persistedAssetIds.has(l.id)) {
-        persistedAssetIds.add(l.id);
+      if (l.blobUrl && !assetIds.has(l.id)) {
+        assetIds.add(l.id);
         try {
           const resp = await fetch(l.blobUrl);
           const blob = await resp.blob();
-          await setAsset(l.id, blob);
+          await setAsset(assetKey(docId, l.id), blob);
         } catch {}
       }
     }
     // Remove IDB entries for deleted layers
     const currentIds = new Set(layers.map(l => l.id));
-    for (const id of [...persistedAssetIds]) {
+    for (const id of [...assetIds]) {
       if (!currentIds.has(id)) {
-        persistedAssetIds.delete(id);
-        removeAsset(id).catch(() => {});
+        assetIds.delete(id);
+        removeAsset(assetKey(docId, id)).catch(() => {});
       }
     }
   });
@@ -187,36 +383,126 @@ export async function initPersistence() {
   $appearanceMode.listen(debouncedSave);
   $lightAngle.listen(debouncedSave);
   $zoom.listen(debouncedSave);
+  $exportSettings.listen(debouncedSave);
+}
+
+// ─── Library actions ──────────────────────────────────────────────────────────
+
+/**
+ * Makes another stored document the active one.
+ */
+export async function switchDocument(id: string) {
+  if (id === $activeDocumentId.get()) return;
+  if (!(await flushPendingSave())) return;
+  const record = await getDocument(id);
+  if (record) await loadDocument(record);
+  await refreshDocuments();
+}
+
+/**
+ * Creates an empty document and switches to it. Returns false if the switch
+ * was cancelled because of unsaved changes.
+ */
+export async function createDocument(): Promise<boolean> {
+  if (!(await flushPendingSave())) return false;
+  const record = await createDocumentRecord(defaultDocument());
+  const loaded = await loadDocument(record);
+  await refreshDocuments();
+  return loaded;
+}
+
+/**
+ * Copies a document, including its own copy of every layer file.
+ */
+export async function duplicateDocument(id: string) {
+  if (id === $activeDocumentId.get()) await saveState();
+  const source = await getDocument(id);
+  if (!source) return;
+  const copy = await createDocumentRecord({ ...source.data, iconName: `${source.data.iconName} copy` });
+  for (const key of await listAssetKeys(id)) {
+    const blob = await getAsset(key);
+    if (blob) await setAsset(assetKey(copy.id, key.slice(id.length + 1)), blob);
+  }
+  // Same look as the original — reuse its thumbnail until the copy is edited
+  await putDocument({ ...copy, version: source.version, thumbnail: source.thumbnail });
+  await refreshDocuments();
+}
+
+export async function renameDocument(id: string, name: string) {
+  const trimmed = name.trim() || 'Untitled';
+  if (id === $activeDocumentId.get()) {
+    $iconName.set(trimmed);
+    return;
+  }
+  const record = await getDocument(id);
+  if (!record) return;
+  await putDocument({ ...record, data: { ...record.data, iconName: trimmed }, updatedAt: Date.now() });
+  await refreshDocuments();
 }
 
 /**
- * Public helper to bind a file to a layer in IDB.
+ * Deletes a document and its files. Deleting the active document switches to
+ * the most recent remaining one (or a new empty document).
+ */
+export async function deleteDocument(id: string) {
+  const wasActive = id === $activeDocumentId.get();
+  await deleteDocumentRecord(id);
+  if (wasActive) {
+    if (saveTimeout) { window.clearTimeout(saveTimeout); saveTimeout = null; }
+    $hasUnsavedChanges.set(false);
+    const remaining = (await listDocuments()).sort((a, b) => b.updatedAt - a.updatedAt);
+    await loadFirstDocument(remaining);
+  }
+  await refreshDocuments();
+}
+
+// ─── Assets ───────────────────────────────────────────────────────────────────
+
+/**
+ * Public helper to bind a file to a layer of the active document in IDB.
  * This should be called when a new layer is created.
  */
 export async function persistLayerAsset(id: string, blob: Blob) {
-    await setAsset(id, blob);
-    saveState();
+    const docId = $activeDocumentId.get();
+    if (!docId) return;
+    await setAsset(assetKey(docId, id), blob);
+    persistedAssetIds.add(id);
+}
+
+/**
+ * Public helper to read the original uploaded file of a layer — from IDB, or
+ * from its live blob URL when it has not been synced (or auto-save is off).
+ */
+export async function getLayerAsset(layer: Pick<Layer, 'id' | 'blobUrl'>): Promise<Blob | null> {
+    const docId = $activeDocumentId.get();
+    const stored = docId ? await getAsset(assetKey(docId, layer.id)) : null;
+    if (stored) return stored;
+    if (!layer.blobUrl) return null;
+    try {
+        return await (await fetch(layer.blobUrl)).blob();
+    } catch {
+        return null;
+    }
 }
 
 /**
  * Public helper to clean up assets for removed layers.
  */
 export async function deleteLayerAsset(id: string) {
-    await removeAsset(id);
-    saveState();
+    const docId = $activeDocumentId.get();
+    if (!docId) return;
+    await removeAsset(assetKey(docId, id));
+    persistedAssetIds.delete(id);
 }
 
 /**
- * Clears all saved state and reloads the app.
+ * Clears all saved documents and reloads the app.
  */
 export async function clearPersistence() {
     $hasUnsavedChanges.set(false);
     $persistenceEnabled.set(false);
-    localStorage.removeItem(STORAGE_KEY);
-    const db = await dbPromise;
-    const tx = db.transaction(ASSET_STORE_NAME, 'readwrite');
-    tx.objectStore(ASSET_STORE_NAME).clear();
-    tx.oncomplete = () => {
-        window.location.reload();
-    };
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    localStorage.removeItem(ACTIVE_DOCUMENT_KEY);
+    await clearDatabase();
+    window.location.reload();
 }
@@ -1,5 +1,13 @@
 import { atom } from 'nanostores';
-import type { AppearanceMode } from '../types/index';
+import type { AppearanceMode, RenderQuality } from '../types/index';
+import type { FrameReport } from '../engine/diagnostics';
+
+/** Every appearance the icon is designed for, in display order. */
+export const APPEARANCE_MODES: { value: AppearanceMode; label: string }[] = [
+  { value: 'default', label: 'Default' },
+  { value: 'dark',    label: 'Dark'    },
+  { value: 'clear',   label: 'Clear'   },
+];
 
 export const ZOOM_LEVELS = [25, 50, 75, 100, 150, 200] as const;
 
@@ -25,10 +33,20 @@ export const $zoom = atom<number>(100);
 export const $inspectorTab = atom<'brush' | 'document'>('brush');
 export const $isDragOver = atom<boolean>(false);
 export const $showBackgroundPicker = atom<boolean>(false);
+export const $showExportDialog = atom<boolean>(false);
 export const $persistenceEnabled = atom<boolean>(true);
-export type Webgl2Status = 'inactive' | 'active' | 'error';
+// 'lost' = the GPU context is gone for now; rendering falls back to Canvas 2D
+// and returns to WebGL2 once the browser restores it
+export type Webgl2Status = 'inactive' | 'active' | 'lost' | 'error';
 export const $webgl2Status = atom<Webgl2Status>('inactive');
 export const $webgl2Error = atom<string>('');
+// Quality tier of the frame currently shown on the canvas
+export const $renderQuality = atom<RenderQuality>('final');
+// Diagnostics overlay — canvas renders are timed only while it is open
+export const $showDiagnostics = atom<boolean>(false);
+export const $frameReport = atom<FrameReport | null>(null);
+// Properties the last .icon import or export could not carry over — shown until dismissed
+export const $bundleReport = atom<{ title: string; unmapped: string[] } | null>(null);
 
 export function selectLayer(id: string | null) {
   $selectedLayerId.set(id);
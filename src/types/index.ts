@@ -42,17 +42,23 @@ export interface LiquidGlassConfig {
     value: number;
     type?: 'chromatic' | 'neutral';
   };
-  // SDF-based rendering parameters (all optional — defaults in renderer)
+  // Glass optics (all optional — defaults and mapping in engine/glassOptics.ts)
   refraction?: { enabled: boolean; thickness: number; factor: number; dispersion: number };
   fresnel?: { enabled: boolean; range: number; factor: number; hardness: number };
   glare?: { enabled: boolean; range: number; convergence: number; factor: number; angle: number };
-  tint?: { r: number; g: number; b: number; a: number };
+  tint?: { r: number; g: number; b: number; a: number }; // rgb 0–255, a 0–1
 }
 
 export interface LayerLayout {
-  x: number;
+  x: number;          // percent of the icon size
   y: number;
-  scale: number;
+  scale: number;      // percent, uniform
+  // Optional — transform order and defaults in engine/layout.ts
+  rotation?: number;  // degrees, clockwise
+  scaleX?: number;    // percent, on top of `scale`
+  scaleY?: number;
+  flipX?: boolean;    // mirror horizontally
+  flipY?: boolean;    // mirror vertically
 }
 
 export interface Layer {
@@ -70,6 +76,8 @@ export interface Layer {
   fill: FillConfig;
   liquidGlass: LiquidGlassConfig;
   layout: LayerLayout;
+  // Per-appearance specializations (e.g. a different fill in Dark mode)
+  appearances?: Partial<Record<AppearanceMode, AppearanceOverride>>;
 }
 
 export type BackgroundPreset = 'warm' | 'cool' | 'forest' | 'ocean' | 'sunset' | 'mono';
@@ -113,10 +121,42 @@ export interface UIState {
   appearanceMode: AppearanceMode;
 }
 
+// 'draft' renders skip the costliest passes — used while the user is dragging
+// or scrubbing, followed by a 'final' render once input settles
+export type RenderQuality = 'draft' | 'final';
+
 export interface RenderContext {
   layers: Layer[];
   background: BackgroundConfig;
   lightAngle: number;
   appearanceMode: AppearanceMode;
   size: number;
+  // 'square' = full-bleed and unmasked, for platforms that apply their own mask
+  shape?: 'squircle' | 'square';
+  // Paint the layers only — glass still refracts the background it would sit on
+  omitBackground?: boolean;
+  // Defaults to 'final'
+  quality?: RenderQuality;
+  // Time the render's stages and return a FrameReport (diagnostics overlay)
+  diagnostics?: boolean;
+  // 'canvas2d' skips WebGL even where it works — e.g. to compare the two paths.
+  // Defaults to 'auto'
+  backend?: 'auto' | 'canvas2d';
+}
+
+export type ExportFormat = 'png' | 'webp' | 'avif' | 'jpeg';
+
+export interface ExportSettings {
+  /** Output sizes in px */
+  sizes: number[];
+  formats: ExportFormat[];
+  modes: AppearanceMode[];
+  /** null = the document's light angle */
+  lightAngle: number | null;
+  // 'transparent' = masked squircle on transparency, 'filled' = full-bleed square
+  background: 'transparent' | 'filled';
+  /** `$iconName`, `$size`, `$mode` and `$format` are substituted; the extension is appended */
+  fileNameTemplate: string;
+  /** 1–100, used by WebP / AVIF / JPEG */
+  quality: number;
 }
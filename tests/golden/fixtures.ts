@@ -0,0 +1,100 @@
+import { createLayer, createGroup, bgColorsFromHueTint } from '../../src/store/iconStore';
+import type { Layer, LayerLayout, RenderContext } from '../../src/types/index';
+
+// ─── Golden-image fixtures ────────────────────────────────────────────────────
+// Documents the golden harness (scripts/golden.mjs) renders through both
+// backends. Each one exercises a different part of the renderer; together they
+// cover glass on glass, appearance modes, groups and layout transforms.
+//
+// Layers name their artwork by `sourceFile`; the harness page turns it into a
+// blob URL. Artwork is drawn at 1024 px so the renderer uses it as is — smaller
+// SVGs get a hi-res copy loaded in the background, which would make the first
+// render differ from later ones.
+
+export interface GoldenFixture extends Omit<RenderContext, 'backend' | 'diagnostics'> {
+  name: string;
+}
+
+const svg = (body: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024" viewBox="0 0 100 100">${body}</svg>`;
+
+export const ARTWORK: Record<string, string> = {
+  'circle.svg': svg('<circle cx="50" cy="50" r="32" fill="#ffffff"/>'),
+  'square.svg': svg('<rect x="18" y="18" width="64" height="64" rx="14" fill="#ff9f0a"/>'),
+  'bolt.svg': svg('<path d="M56 10 24 56h22l-6 34 34-48H52z" fill="#30d158"/>'),
+};
+
+function layer(id: string, sourceFile: string, order: number, overrides: Partial<Layer> = {}): Layer {
+  return { ...createLayer(id), id, sourceFile, order, ...overrides };
+}
+
+function group(id: string, order: number, overrides: Partial<Layer> = {}): Layer {
+  return { ...createGroup(id), id, order, ...overrides };
+}
+
+function at(layout: Partial<LayerLayout>): LayerLayout {
+  return { ...createLayer('').layout, ...layout };
+}
+
+const SIZE = 256;
+
+export const FIXTURES: GoldenFixture[] = [
+  {
+    // Glass refracting the layer below it, which refracts the background
+    name: 'glass-stack',
+    size: SIZE,
+    lightAngle: 135,
+    appearanceMode: 'default',
+    background: { type: 'gradient', hue: 220, tint: 20, colors: bgColorsFromHueTint(220, 20), angle: 135 },
+    layers: [
+      layer('square', 'square.svg', 0, { layout: at({ scale: 90 }) }),
+      layer('circle', 'circle.svg', 1, { layout: at({ x: 12, y: 12, scale: 60 }) }),
+    ],
+  },
+  {
+    name: 'dark-fills',
+    size: SIZE,
+    lightAngle: 60,
+    appearanceMode: 'dark',
+    background: { type: 'solid', color: '#2c2c2e' },
+    layers: [
+      layer('square', 'square.svg', 0, {
+        fill: { type: 'gradient', angle: 90, stops: [{ offset: 0, color: '#5e5ce6' }, { offset: 1, color: '#bf5af2' }] },
+      }),
+      // Without glass: plain artwork with its fill
+      layer('bolt', 'bolt.svg', 1, {
+        fill: { type: 'solid', color: '#ffd60a' },
+        liquidGlass: { ...createLayer('').liquidGlass, enabled: false },
+      }),
+    ],
+  },
+  {
+    // A glass group merges its children into one piece; the outer group's
+    // opacity and blend mode apply to its merged subtree
+    name: 'groups',
+    size: SIZE,
+    lightAngle: 135,
+    appearanceMode: 'default',
+    background: { type: 'gradient', hue: 30, tint: 40, colors: bgColorsFromHueTint(30, 40), angle: 90 },
+    layers: [
+      group('outer', 0, { opacity: 80, blendMode: 'multiply' }),
+      layer('square', 'square.svg', 0, { parentId: 'outer', layout: at({ x: -10, y: -10, scale: 70 }) }),
+      group('glass', 1, { parentId: 'outer', liquidGlass: { ...createGroup('').liquidGlass, enabled: true } }),
+      layer('circle', 'circle.svg', 0, { parentId: 'glass', layout: at({ x: 10, y: 10, scale: 60 }) }),
+      layer('bolt', 'bolt.svg', 1, { parentId: 'glass', layout: at({ x: 10, y: 10, scale: 50 }) }),
+    ],
+  },
+  {
+    // Rotation, stretch and flips, full-bleed, in the tinted appearance
+    name: 'transforms-clear',
+    size: SIZE,
+    lightAngle: 45,
+    appearanceMode: 'clear',
+    shape: 'square',
+    background: { type: 'gradient', hue: 150, tint: 10, colors: bgColorsFromHueTint(150, 10), angle: 45 },
+    layers: [
+      layer('square', 'square.svg', 0, { layout: at({ rotation: 30, scaleX: 140, scale: 60 }) }),
+      layer('bolt', 'bolt.svg', 1, { layout: at({ flipX: true, flipY: true, scale: 70, y: 5 }) }),
+    ],
+  },
+];
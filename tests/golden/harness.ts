@@ -0,0 +1,40 @@
+import { renderIconToCanvas } from '../../src/engine/IconRenderer';
+import { $webgl2Status } from '../../src/store/uiStore';
+import type { Webgl2Status } from '../../src/store/uiStore';
+import { ARTWORK, FIXTURES } from './fixtures';
+
+// ─── Golden-image harness page ────────────────────────────────────────────────
+// Loaded by scripts/golden.mjs in headless Chrome. Renders one fixture at a
+// time on the main thread and hands the frame back as a PNG data URL, with the
+// WebGL2 status so the runner can tell whether the GPU path really ran.
+
+type Backend = 'auto' | 'canvas2d';
+
+interface GoldenFrame {
+  png: string;
+  webgl2: Webgl2Status;
+}
+
+declare global {
+  interface Window {
+    golden?: {
+      fixtures: string[];
+      render: (name: string, backend: Backend) => Promise<GoldenFrame>;
+    };
+  }
+}
+
+const artworkUrls = new Map(
+  Object.entries(ARTWORK).map(([file, source]) => [file, URL.createObjectURL(new Blob([source], { type: 'image/svg+xml' }))]),
+);
+
+async function render(name: string, backend: Backend): Promise<GoldenFrame> {
+  const fixture = FIXTURES.find((f) => f.name === name);
+  if (!fixture) throw new Error(`Unknown fixture "${name}"`);
+  const layers = fixture.layers.map((l) => (l.sourceFile ? { ...l, blobUrl: artworkUrls.get(l.sourceFile) } : l));
+  const canvas = document.createElement('canvas');
+  await renderIconToCanvas(canvas, { ...fixture, layers, backend });
+  return { png: canvas.toDataURL('image/png'), webgl2: $webgl2Status.get() };
+}
+
+window.golden = { fixtures: FIXTURES.map((f) => f.name), render };
@@ -14,6 +14,11 @@ const glslRaw = {
 
 export default defineConfig({
   plugins: [react(), glslRaw],
+  // The renderer also runs in a module worker (src/engine/render.worker.ts)
+  worker: {
+    format: 'es',
+    plugins: [glslRaw],
+  },
   resolve: {
     alias: {
       '@': fileURLToPath(new URL('./src', import.meta.url)),